@@ -1,11 +1,27 @@
-export { DEFAULT_PATHS } from './src/constants';
+export { DEFAULT_PATHS, PRISMA_ARGS } from './src/constants';
 export { GQLPrismaSelect } from './src/GQLPrismaSelect';
+export {
+  GQLPrismaSelectError,
+  UnknownArgumentError,
+  QueryLimitError,
+  PaginationError,
+  ForbiddenFieldError,
+  InvalidWhereError
+} from './src/errors';
 export { TypedGQLPrismaSelect } from './src/typed/TypedGQLPrismaSelect';
 export { TypedQueryBuilder } from './src/typed/TypedQueryBuilder';
 export { GraphQLResolveInfo } from './types';
 
 // Phase 2: Query Transformation & Field Mapping
 export type {
+  GQLPrismaSelectOptions,
+  AliasSelection,
+  TypeSelection,
+  ComputedFields,
+  CountFields,
+  ArgumentMapper,
+  ArgumentMapping,
+  ArgumentOptions,
   FieldTransform,
   TransformContext,
   FieldTransforms,
@@ -18,6 +34,131 @@ export {
   ResultTransformer
 } from './src/transforms';
 
+// Prisma DMMF integration
+export { PrismaDatamodel } from './src/dmmf';
+
+export type {
+  DMMFDatamodel,
+  DMMFModel,
+  DMMFField
+} from './src/dmmf';
+
+// Prisma query building
+export { PrismaQueryBuilder } from './src/queryBuilder';
+
+export type {
+  PaginationOptions,
+  PrismaQueryArgs
+} from './src/queryBuilder';
+
+export { QueryFilters } from './src/filters';
+
+export type {
+  FilterPolicy,
+  ModelFilterPolicy
+} from './src/filters';
+
+// Query limits
+export { QueryLimiter } from './src/limits';
+
+export type {
+  QueryLimits,
+  CostOptions,
+  QueryComplexity,
+  LimitContext
+} from './src/limits';
+
+// Page size limits
+export { PaginationGuard } from './src/pagination';
+
+export type {
+  PaginationLimits,
+  PaginationPolicy,
+  PaginationTarget
+} from './src/pagination';
+
+// Field-level authorization
+export { FieldAuthorizer } from './src/authorization';
+
+export type {
+  AuthorizationOptions,
+  AuthorizationRule,
+  AuthorizationDecision,
+  AuthorizedField
+} from './src/authorization';
+
+// Where-clause allowlist
+export { WhereValidator } from './src/where';
+
+export type {
+  WhereAllowlist,
+  WhereOptions,
+  RelationResolver
+} from './src/where';
+
+// Selection caching
+export { SelectionCache } from './src/selectionCache';
+
+export type {
+  SelectionCacheConfig,
+  SelectionCacheStats,
+  CachedSelection
+} from './src/selectionCache';
+
+// Cache storage
+export {
+  MemoryCacheStore,
+  FileSystemCacheStore,
+  CacheSerializer
+} from './src/cacheStore';
+
+export type { CacheStore } from './src/cacheStore';
+
+// Batched loading
+export {
+  PrismaDataLoader,
+  PrismaRelationLoader
+} from './src/dataLoader';
+
+export type {
+  PrismaDataLoaderOptions,
+  PrismaRelationLoaderOptions,
+  PrismaDelegate
+} from './src/dataLoader';
+
+// Keys for field resolvers
+export { KeyInjector } from './src/keys';
+
+export type {
+  KeyOptions,
+  KeyMap,
+  KeyContext,
+  KeyedSelection
+} from './src/keys';
+
+// Selections from GraphQL documents
+export { DocumentResolveInfo } from './src/document';
+
+export type { DocumentOptions } from './src/document';
+
+// Relay connections
+export { ConnectionHandler } from './src/connection';
+
+export type {
+  ConnectionOptions,
+  ConnectionInfo,
+  ConnectionArgs
+} from './src/connection';
+
+// Mutation payloads
+export { MutationPayload } from './src/mutation';
+
+export type {
+  MutationOptions,
+  MutationInfo,
+  MutationSelection
+} from './src/mutation';
+
 // Phase 7: Advanced Fragment Handling
 export {
   FragmentRegistry,
@@ -36,7 +177,8 @@ export type {
   FragmentOverride,
   FragmentDirective,
   FragmentMetadata,
-  DynamicFragment
+  DynamicFragment,
+  CacheConfig
 } from './src/fragments';
 
 // Phase 8: Type-Safe Integration
@@ -1,5 +1,6 @@
 import { Kind } from 'graphql/language/kinds';
-import type { ArgumentNode, ValueNode, ObjectFieldNode } from 'graphql';
+import { getNamedType, getNullableType, isAbstractType, isCompositeType, isListType, isObjectType } from 'graphql';
+import type { ArgumentNode, ValueNode, ObjectFieldNode, DirectiveNode, DocumentNode, FieldNode } from 'graphql';
 import type { GraphQLResolveInfo } from 'types';
 import type { GraphQLSchema } from 'graphql';
 import { TransformationEngine, ResultTransformer } from './transforms';
@@ -10,6 +11,7 @@ import {
   FragmentOverrider,
   DynamicFragmentHandler,
   FragmentCache,
+  CacheConfig,
   FragmentAnalyzer,
   FragmentDefinition,
   FragmentStats,
@@ -27,6 +29,19 @@ import {
   SafeSelect,
   InferSelection
 } from './types';
+import { DMMFDatamodel, PrismaDatamodel } from './dmmf';
+import { ConnectionHandler, ConnectionInfo, ConnectionOptions } from './connection';
+import { PAGING_ARGS, PRISMA_ARGS } from './constants';
+import { GQLPrismaSelectError, UnknownArgumentError } from './errors';
+import { DocumentOptions, DocumentResolveInfo } from './document';
+import { FilterPolicy, QueryFilters } from './filters';
+import { QueryComplexity, QueryLimiter, QueryLimits } from './limits';
+import { PaginationGuard, PaginationPolicy } from './pagination';
+import { AuthorizationOptions, FieldAuthorizer } from './authorization';
+import { WhereOptions, WhereValidator } from './where';
+import { CachedSelection, SelectionCache } from './selectionCache';
+import { KeyInjector, KeyOptions } from './keys';
+import { MutationInfo, MutationOptions, MutationPayload } from './mutation';
 
 interface SelectInclude {
   select?: Include;
@@ -41,6 +56,16 @@ interface SelectInclude {
 
 type Include = Record<string, boolean | SelectInclude>;
 
+interface CollectedField {
+  nodes: FieldNode[];
+  typeName?: string;               // GraphQL type the field was collected under
+}
+
+interface CollectedFields {
+  fields: Map<string, CollectedField>;
+  fragments: { name: string; selections: Include }[];
+}
+
 // Phase 2: Query Transformation & Field Mapping
 export type FieldTransform = string | ((value: any, context: TransformContext) => any);
 
@@ -64,6 +89,90 @@ export interface TransformOptions {
   customTransformers?: Record<string, Function>;
 }
 
+/**
+ * Resolver-only fields per GraphQL type, mapped to the Prisma fields they depend on.
+ * Dependencies may be nested paths, e.g. `{ User: { avatarUrl: ['profile.avatarKey'] } }`
+ */
+export interface ComputedFields {
+  [typeName: string]: {
+    [field: string]: string[];
+  };
+}
+
+/**
+ * Count fields per GraphQL type, mapped to the relation they count. A static
+ * filter can be given, e.g. `{ User: { postsCount: 'posts', draftsCount: { relation: 'posts', where: { published: false } } } }`;
+ * a `where` argument on the count field is applied as well
+ */
+export interface CountFields {
+  [typeName: string]: {
+    [field: string]: string | { relation: string; where?: any };
+  };
+}
+
+/**
+ * Maps a GraphQL argument to Prisma: a string renames it, an object renames
+ * and/or transforms its value, and a function returns Prisma arguments to merge
+ * (e.g. `page` -> `{ take, skip }`)
+ */
+export type ArgumentMapper =
+  | string
+  | { to?: string; transform?: (value: any, args: Record<string, any>) => any }
+  | ((value: any, args: Record<string, any>) => Record<string, any>);
+
+export interface ArgumentMapping {
+  [graphqlArg: string]: ArgumentMapper;
+}
+
+export interface ArgumentOptions {
+  map?: ArgumentMapping;                    // Applied to every field
+  fields?: Record<string, ArgumentMapping>; // Per field, keyed by coordinate ('User.posts') or field name
+  strict?: boolean;                         // Throw on arguments that are neither Prisma arguments nor mapped
+}
+
+export interface GQLPrismaSelectOptions {
+  excludeFields?: string[];
+  get?: string | string[];
+  transforms?: TransformOptions;
+  fragments?: FragmentOptions;
+  mergeAliases?: boolean;          // Merge aliased selections of the same field instead of overwriting
+  datamodel?: DMMFDatamodel;       // Prisma.dmmf.datamodel, enables schema-aware select trees
+  model?: string;                  // Prisma model of the resolver's return type (defaults to the GraphQL return type name)
+  computedFields?: ComputedFields; // Resolver-only fields replaced by the Prisma fields they depend on
+  countFields?: CountFields;       // Fields selected as Prisma relation counts (`_count`)
+  connection?: boolean | ConnectionOptions; // Unwrap a Relay connection (edges.node) into the model selection
+  argumentMapping?: ArgumentOptions; // Rename and transform GraphQL arguments into Prisma arguments
+  filters?: FilterPolicy;          // Tenant and soft-delete filters injected at every to-many relation (requires datamodel)
+  limits?: QueryLimits;            // Max depth, relation count and cost of the generated selection
+  pagination?: PaginationPolicy;   // Default and max take, max skip and cursor validation
+  authorization?: AuthorizationOptions; // Field rules evaluated against a context while building selections
+  where?: WhereOptions;            // Allowlist of filterable fields and operators for client `where` arguments
+  cache?: SelectionCache;          // Reuse selections computed for the same operation, path and variables
+  cacheKey?: string;               // Added to the cache key; must reflect per-request options (tenant, authorization context)
+  keys?: KeyOptions;               // Select the keys field resolvers load relations by, instead of the relations
+  mutation?: boolean | MutationOptions; // Select the model out of a mutation payload, ignoring the write arguments
+}
+
+/**
+ * Selection and Prisma arguments requested under a single alias (response key)
+ */
+export interface AliasSelection {
+  alias: string;
+  field: string;
+  args: Record<string, any>;
+  select?: Include;
+  include?: Include;
+}
+
+/**
+ * Selection requested for one concrete type of a union or interface field
+ */
+export interface TypeSelection {
+  type: string;
+  select?: Include;
+  include?: Include;
+}
+
 export class GQLPrismaSelect<S = any, I = any> {
   private info: GraphQLResolveInfo;
 
@@ -72,21 +181,38 @@ export class GQLPrismaSelect<S = any, I = any> {
   public include?: I;
   public select?: S;
   public args: Record<string, any> = {};
+  public connection?: ConnectionInfo;
+  public complexity?: QueryComplexity;
+  public implicitFields: string[] = []; // Fields selected by `keys` but not requested
+  public mutation?: MutationInfo;
   private excludeFields: string[] = [];
   private readonly fragments: Record<string, Include>;
   private transformationEngine?: TransformationEngine;
   private resultTransformer?: ResultTransformer;
   private fragmentOptions?: FragmentOptions;
   private fragmentCache?: FragmentCache;
+  private mergeAliases: boolean;
+  private aliasSelections?: Map<string, Record<string, AliasSelection>>;
+  private typeSelections?: Record<string, TypeSelection>;
+  private datamodel?: PrismaDatamodel;
+  private model?: string;
+  private rootType?: string;
+  private computedFields?: ComputedFields;
+  private countFields?: CountFields;
+  private argumentOptions?: ArgumentOptions;
+  private filters?: FilterPolicy;
+  private pagination?: PaginationPolicy;
+  private authorization?: AuthorizationOptions;
+  private whereOptions?: WhereOptions;
+  private rootSelections?: readonly any[]; // Selections of the model field of a mutation payload
+  private payloadPath: string[] = [];
+  private preprocessingFragments = false; // Fragments are checked where they are spread, not while preprocessed
+
+  private static fragmentCaches = new WeakMap<CacheConfig, FragmentCache>();
 
   constructor(
     info: GraphQLResolveInfo,
-    params: {
-      excludeFields?: string[];
-      get?: string | string[];
-      transforms?: TransformOptions;
-      fragments?: FragmentOptions;
-    } = {}
+    params: GQLPrismaSelectOptions = {}
   ) {
     if (!info) {
       throw new Error('GraphQLResolveInfo is required');
@@ -99,6 +225,26 @@ export class GQLPrismaSelect<S = any, I = any> {
     this.excludeFields = params.excludeFields || ['__typename'];
     this.info = info;
     this.fragmentOptions = params.fragments;
+    this.mergeAliases = params.mergeAliases ?? false;
+
+    if (params.datamodel) {
+      this.datamodel = new PrismaDatamodel(params.datamodel);
+    }
+    // Mutations select the model out of their payload type
+    const returnType = params.mutation
+      ? this.resolveMutationPayload(params.mutation === true ? {} : params.mutation, params.model)
+      : getNamedType(info.returnType)?.name;
+    if (this.datamodel) {
+      this.model = this.resolveRootModel(params.model, returnType);
+    }
+    this.rootType = returnType || this.model;
+    this.computedFields = params.computedFields;
+    this.countFields = params.countFields;
+    this.argumentOptions = params.argumentMapping;
+    this.filters = params.filters;
+    this.pagination = params.pagination;
+    this.authorization = params.authorization;
+    this.whereOptions = params.where;
 
     // Initialize transformation engine if transforms are provided
     if (params.transforms) {
@@ -106,17 +252,74 @@ export class GQLPrismaSelect<S = any, I = any> {
       this.resultTransformer = new ResultTransformer(this.transformationEngine);
     }
 
-    // Initialize fragment cache if enabled
-    if (params.fragments?.caching?.enabled) {
-      this.fragmentCache = new FragmentCache(params.fragments.caching);
+    // Initialize fragment cache if enabled, shared by selectors with the same config
+    const caching = params.fragments?.caching;
+    if (caching?.enabled) {
+      this.fragmentCache = GQLPrismaSelect.fragmentCaches.get(caching);
+      if (!this.fragmentCache) {
+        this.fragmentCache = new FragmentCache(caching);
+        GQLPrismaSelect.fragmentCaches.set(caching, this.fragmentCache);
+      }
+    }
+
+    if (params.cache && !params.cacheKey && (params.filters || params.authorization)) {
+      throw new GQLPrismaSelectError('A cacheKey is required to cache selections built with filters or authorization');
+    }
+    const cacheKey = params.cache && SelectionCache.generateKey(info, params.cacheKey);
+    const cached = cacheKey ? params.cache!.get(cacheKey) : undefined;
+
+    // Fragments are only preprocessed with fragment options; otherwise, and when
+    // their fields are authorized or their where arguments validated, spreads are
+    // expanded in place, where their fields are checked at their response path
+    this.fragments = this.fragmentOptions ? this.processFragments() : {};
+    if (cached) {
+      this.restoreSelection(cached);
+      return;
     }
 
-    // Parse and save fragments with enhanced processing
-    this.fragments = this.processFragments();
-    
-    this.args = this.getPrismaArgs(info.fieldNodes[0].arguments);
-    
-    const res = this.transformPrismaIncludeFromQuery(info);
+    // The arguments of a mutation describe the write, which the resolver passes to Prisma itself
+    if (!this.mutation) {
+      this.args = this.getPrismaArgs(
+        info.fieldNodes[0].arguments,
+        info.parentType?.name,
+        info.fieldNodes[0].name.value,
+        // Pagination arguments of a connection are translated separately
+        params.connection ? ['first', 'after', 'last', 'before'] : []
+      );
+      this.args = this.sanitizeWhere(this.args, this.model || this.rootType, this.getRootPath());
+    }
+
+    let mapped = this.transformPrismaIncludeFromQuery(info);
+
+    // Connections select the model through edges.node and paginate with first/after/last/before
+    if (params.connection) {
+      const connectionOptions = params.connection === true ? {} : params.connection;
+      const unwrapped = ConnectionHandler.unwrap(mapped, connectionOptions);
+      mapped = unwrapped.selections;
+      this.connection = unwrapped.connection;
+      this.args = {
+        ...this.args,
+        ...ConnectionHandler.toPrismaArgs(
+          this.getArgumentValues(info.fieldNodes[0].arguments),
+          connectionOptions
+        )
+      };
+    }
+
+    if (this.pagination && !this.mutation) {
+      const returnType = info.returnType && getNullableType(info.returnType);
+      this.args = PaginationGuard.apply(this.args, this.pagination, {
+        typeName: info.parentType?.name,
+        fieldName: info.fieldNodes[0].name.value,
+        model: this.model || this.rootType,
+        // A connection is a list, paginated backwards with `last`
+        isList: !!params.connection || (!!returnType && isListType(returnType)),
+        allowNegativeTake: !!params.connection,
+        datamodel: this.datamodel
+      });
+    }
+
+    const res = this.selectOrInclude(mapped);
 
     // Save original values
     this.originalInclude = res.include as I;
@@ -126,18 +329,175 @@ export class GQLPrismaSelect<S = any, I = any> {
       params.get,
       res.select || res.include
     );
-    const { include, select } = this.selectOrInclude(customSelection);
 
     // Apply transformations if engine is available
-    if (this.transformationEngine) {
-      const transformedSelection = this.transformationEngine.transformSelections(customSelection);
-      const transformed = this.selectOrInclude(transformedSelection);
-      this.include = transformed.include as I;
-      this.select = transformed.select as S;
+    const selection = this.transformationEngine
+      ? this.transformationEngine.transformSelections(customSelection)
+      : customSelection;
+
+    // With a datamodel the selection is built against the Prisma model,
+    // which always yields a valid select tree
+    const model = this.model && this.datamodel!.resolvePath(this.model, this.toPath(params.get));
+    if (this.filters && !model) {
+      throw new GQLPrismaSelectError('Filter policies require a datamodel and a Prisma model');
+    }
+    if (model) {
+      this.select = this.buildModelSelect(model, selection || {}) as S;
+      this.include = undefined;
+      if (this.filters && !this.mutation) {
+        const where = QueryFilters.applyToWhere(this.args.where, this.model!, this.filters);
+        if (where) {
+          this.args = { ...this.args, where };
+        }
+      }
     } else {
+      const { include, select } = this.selectOrInclude(selection);
       this.include = include as I;
       this.select = select as S;
     }
+
+    if (params.keys && (this.select || this.include)) {
+      this.injectKeys(params.keys, model || undefined, params.get);
+    }
+
+    if (params.limits) {
+      this.complexity = QueryLimiter.enforce(
+        (this.select || this.include || {}) as Include,
+        params.limits,
+        { args: this.args, datamodel: this.datamodel, model: model || undefined }
+      );
+    }
+
+    if (cacheKey) {
+      params.cache!.set(cacheKey, {
+        select: this.select,
+        include: this.include,
+        originalSelect: this.originalSelect,
+        originalInclude: this.originalInclude,
+        args: this.args,
+        connection: this.connection,
+        complexity: this.complexity,
+        implicitFields: this.implicitFields
+      });
+    }
+  }
+
+  /**
+   * Restore the output of a selector from the selection cache
+   */
+  private restoreSelection(cached: CachedSelection): void {
+    this.select = cached.select;
+    this.include = cached.include;
+    this.originalSelect = cached.originalSelect;
+    this.originalInclude = cached.originalInclude;
+    this.args = cached.args;
+    this.connection = cached.connection;
+    this.complexity = cached.complexity;
+    this.implicitFields = cached.implicitFields || [];
+  }
+
+  /**
+   * Replace relations loaded by field resolvers with their keys, and select primary keys
+   */
+  private injectKeys(options: KeyOptions, model: string | undefined, get?: string | string[]): void {
+    const typeName = model || this.toPath(get).reduce<string | undefined>(
+      (type, field) => this.resolveFieldType(type, field),
+      this.rootType
+    );
+    const { selections, implicitFields } = KeyInjector.apply(
+      (this.select || this.include) as Include,
+      typeName,
+      options,
+      {
+        datamodel: this.datamodel,
+        resolveType: (type, field) => this.resolveFieldType(type, field)
+      },
+      !!this.select
+    );
+
+    this.implicitFields = implicitFields;
+    if (this.select) {
+      this.select = selections as S;
+    } else {
+      // An empty include selects the scalars, as no include does
+      this.include = (Object.keys(selections).length > 0 ? selections : undefined) as I;
+    }
+  }
+
+  /**
+   * Remove the fields selected by `keys` but not requested from query results,
+   * e.g. before returning them outside of GraphQL
+   */
+  stripImplicitFields<T>(data: T): T {
+    return KeyInjector.strip(data, this.implicitFields);
+  }
+
+  /**
+   * Build the select tree of a Prisma model, with filter policies applied
+   */
+  private buildModelSelect(model: string, selections: Include): Include {
+    const select = this.datamodel!.buildSelect(model, selections);
+    return this.filters
+      ? QueryFilters.applyToSelect(select, model, this.datamodel!, this.filters)
+      : select;
+  }
+
+  /**
+   * Resolve the Prisma model of the resolver's return type
+   */
+  private resolveRootModel(model: string | undefined, returnType: string | undefined): string | undefined {
+    const name = model || returnType;
+    return name && this.datamodel!.hasModel(name) ? name : undefined;
+  }
+
+  /**
+   * Find the model field of a mutation payload and collect its selections
+   * @returns The GraphQL type of the model
+   */
+  private resolveMutationPayload(options: MutationOptions, model?: string): string | undefined {
+    const payloadType = getNamedType(this.info.returnType);
+    const { field, type } = MutationPayload.findModelField(
+      payloadType,
+      options,
+      (typeName) => model ? typeName === model : !!this.datamodel?.hasModel(typeName)
+    );
+    this.mutation = { field, payload: [] };
+    if (!field) {
+      return type;
+    }
+
+    const { fields } = this.collectFields(
+      this.info.fieldNodes.flatMap((node) => node.selectionSet?.selections || []),
+      payloadType?.name,
+      undefined
+    );
+    const nodes: FieldNode[] = [];
+    for (const [responseKey, collected] of fields) {
+      const name = collected.nodes[0].name.value;
+      if (name === field) {
+        // Aliases of the model field are selected together
+        this.payloadPath = this.payloadPath.length ? this.payloadPath : [responseKey];
+        nodes.push(...collected.nodes);
+      } else if (!this.excludeFields.includes(name) && !this.mutation.payload.includes(name)) {
+        this.mutation.payload.push(name);
+      }
+    }
+    this.rootSelections = nodes.flatMap((node) => node.selectionSet?.selections || []);
+    return type || model;
+  }
+
+  /**
+   * Selections the resolver's selection is built from
+   */
+  private getRootSelections(): readonly any[] {
+    return this.rootSelections || this.info.fieldNodes.flatMap((node) => node.selectionSet?.selections || []);
+  }
+
+  private toPath(path?: string | string[]): string[] {
+    if (!path) {
+      return [];
+    }
+    return typeof path === 'string' ? path.split('.') : path;
   }
 
   /**
@@ -154,6 +514,21 @@ export class GQLPrismaSelect<S = any, I = any> {
     });
   }
 
+  /**
+   * Create a selector from a query string or DocumentNode instead of resolve info,
+   * e.g. in background jobs, REST endpoints or tests
+   */
+  static fromQuery<S = any, I = any>(
+    query: string | DocumentNode,
+    options: DocumentOptions & GQLPrismaSelectOptions = {}
+  ): GQLPrismaSelect<S, I> {
+    const { operationName, variables, path, schema, ...params } = options;
+    return new GQLPrismaSelect<S, I>(
+      DocumentResolveInfo.build(query, { operationName, variables, path, schema }),
+      params
+    );
+  }
+
   private processFragments(): Record<string, Include> {
     // Handle undefined or null fragments
     if (!this.info.fragments) {
@@ -161,11 +536,16 @@ export class GQLPrismaSelect<S = any, I = any> {
     }
 
     const processedFragments: Record<string, Include> = {};
+    this.preprocessingFragments = true;
 
     // Process each fragment with advanced features
     for (const [fragmentName, fragmentData] of Object.entries(this.info.fragments)) {
       if (fragmentData?.selectionSet?.selections) {
-        const baseSelections = this.transformFragmentSelections(fragmentData.selectionSet.selections, processedFragments);
+        const baseSelections = this.transformFragmentSelections(
+          fragmentData.selectionSet.selections,
+          processedFragments,
+          fragmentData.typeCondition?.name?.value
+        );
 
         // Apply fragment options if configured
         let processedSelections = baseSelections;
@@ -241,14 +621,26 @@ export class GQLPrismaSelect<S = any, I = any> {
             }
           };
 
-          FragmentRegistry.register(fragmentDef);
+          const registry = this.fragmentOptions.registry || FragmentRegistry.global;
+          registry.register(fragmentDef);
+          registry.recordUsage(fragmentName);
         }
       }
     }
 
+    this.preprocessingFragments = false;
     return processedFragments;
   }
 
+  /**
+   * Whether fragment spreads resolve to their preprocessed selections. Fields
+   * that are authorized or validated are expanded in place instead, since the
+   * checks depend on where a fragment is spread
+   */
+  private usesProcessedFragments(): boolean {
+    return !!this.fragmentOptions && !this.authorization && !this.whereOptions;
+  }
+
   private getFragments(): Record<string, Include> {
     // Handle undefined or null fragments
     if (!this.info.fragments) {
@@ -259,6 +651,9 @@ export class GQLPrismaSelect<S = any, I = any> {
     const transformFragmentSelections = (selections: readonly any[]): Include => {
       return (
         selections?.reduce((acc, selection) => {
+          if (!this.shouldIncludeNode(selection)) {
+            return acc;
+          }
           const { name, selectionSet } = selection;
           const { value } = name;
           const { selections: nestedSelections } = selectionSet || {};
@@ -299,19 +694,59 @@ export class GQLPrismaSelect<S = any, I = any> {
     );
   }
 
-  private getPrismaArgs(argumentNodes?: readonly ArgumentNode[]): Record<string, any> {
+  private getPrismaArgs(
+    argumentNodes: readonly ArgumentNode[] | undefined,
+    typeName: string | undefined,
+    fieldName: string,
+    ignoredArgs: string[] = []
+  ): Record<string, any> {
     const args: Record<string, any> = {};
     if (!argumentNodes) return args;
 
-    for (const arg of argumentNodes) {
-      const name = arg.name.value;
-      if (['take', 'skip', 'orderBy', 'where', 'cursor', 'distinct'].includes(name)) {
-        args[name] = this.parseValueNode(arg.value);
+    // An argument bound to an unset variable is treated as not provided
+    const values = this.getArgumentValues(argumentNodes);
+    const coordinate = typeName ? `${typeName}.${fieldName}` : fieldName;
+    const mapping: ArgumentMapping = {
+      ...this.argumentOptions?.map,
+      ...(this.argumentOptions?.fields?.[coordinate] || this.argumentOptions?.fields?.[fieldName])
+    };
+
+    for (const [name, value] of Object.entries(values)) {
+      const mapper = mapping[name];
+      if (mapper === undefined) {
+        if (PRISMA_ARGS.includes(name)) {
+          args[name] = value;
+        } else if (this.argumentOptions?.strict && !ignoredArgs.includes(name)) {
+          throw new UnknownArgumentError(name, coordinate);
+        }
+      } else if (typeof mapper === 'string') {
+        args[mapper] = value;
+      } else if (typeof mapper === 'function') {
+        Object.assign(args, mapper(value, values));
+      } else {
+        const mapped = mapper.transform ? mapper.transform(value, values) : value;
+        if (mapped !== undefined) {
+          args[mapper.to || name] = mapped;
+        }
       }
     }
     return args;
   }
 
+  /**
+   * Parses every argument of a field, regardless of Prisma support
+   */
+  private getArgumentValues(argumentNodes?: readonly ArgumentNode[]): Record<string, any> {
+    const values: Record<string, any> = {};
+    for (const arg of argumentNodes || []) {
+      const value = this.parseValueNode(arg.value);
+      if (value !== undefined) {
+        values[arg.name.value] = value;
+      }
+    }
+    return values;
+  }
+
   private parseValueNode(value: ValueNode): any {
     switch (value.kind) {
       case Kind.INT:
@@ -324,19 +759,72 @@ export class GQLPrismaSelect<S = any, I = any> {
       case Kind.BOOLEAN:
         return value.value;
       case Kind.LIST:
-        return value.values.map(v => this.parseValueNode(v));
+        // Unset variables inside a list are coerced to null, as in GraphQL execution
+        return value.values.map(v => this.parseValueNode(v) ?? null);
       case Kind.OBJECT:
         return value.fields.reduce((obj, field) => {
-          obj[field.name.value] = this.parseValueNode(field.value);
+          const fieldValue = this.parseValueNode(field.value);
+          if (fieldValue !== undefined) {
+            obj[field.name.value] = fieldValue;
+          }
           return obj;
         }, {} as Record<string, any>);
       case Kind.NULL:
         return null;
+      case Kind.VARIABLE:
+        return this.resolveVariable(value.name.value);
       default:
         return undefined;
     }
   }
 
+  /**
+   * Resolves a variable from info.variableValues, falling back to the
+   * default value declared on the operation
+   */
+  private resolveVariable(name: string): any {
+    const variables = this.info.variableValues || {};
+    if (Object.prototype.hasOwnProperty.call(variables, name)) {
+      return variables[name];
+    }
+
+    const definition = this.info.operation?.variableDefinitions?.find(
+      (def) => def.variable.name.value === name
+    );
+    return definition?.defaultValue
+      ? this.parseValueNode(definition.defaultValue)
+      : undefined;
+  }
+
+  /**
+   * Evaluates @skip and @include directives on a field, inline fragment or
+   * fragment spread against literal values and info.variableValues
+   */
+  private shouldIncludeNode(node: { directives?: readonly DirectiveNode[] }): boolean {
+    if (!node.directives?.length) {
+      return true;
+    }
+
+    for (const directive of node.directives) {
+      const name = directive.name.value;
+      if (name !== 'skip' && name !== 'include') {
+        continue;
+      }
+
+      const ifArg = directive.arguments?.find((arg) => arg.name.value === 'if');
+      const condition = ifArg ? this.parseValueNode(ifArg.value) === true : false;
+
+      if (name === 'skip' && condition) {
+        return false;
+      }
+      if (name === 'include' && !condition) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
   private selectOrIncludeOrBoolean(selections: Include = {}) {
     const values = Object.values(selections);
     if (!values.length) {
@@ -345,110 +833,518 @@ export class GQLPrismaSelect<S = any, I = any> {
     return this.selectOrInclude(selections);
   }
 
-  private selectOrInclude(selections: object = {}) {
+  private selectOrInclude(selections: Include = {}) {
     const values = Object.values(selections);
     return values.some((v) => typeof v === 'boolean')
       ? { select: selections, include: undefined }
       : { include: selections, select: undefined };
   }
 
-  private transformSelections(selections?: readonly any[]): Include {
-    const res =
-      selections?.reduce((acc, selection) => {
-        // Get values
-        const { name, selectionSet } = selection;
-        const { selections: nestedSelections } = selectionSet || {};
+  /**
+   * Attaches Prisma arguments to a field selection
+   */
+  private withArgs(fieldVal: boolean | SelectInclude, args: Record<string, any>): boolean | SelectInclude {
+    if (Object.keys(args).length === 0) {
+      return fieldVal;
+    }
+    return typeof fieldVal === 'object' ? { ...fieldVal, ...args } : args;
+  }
 
-        // Check for type
-        if (selection.kind === Kind.FIELD) {
-          // Validate field structure
-          if (!selection.name || !selection.name.value) {
-            throw new Error('Field node must have a name');
-          }
+  /**
+   * Deep merges two selection maps, merging fields present in both
+   * @param aliases Whether the maps are selections of aliases of the same field
+   */
+  private mergeIncludes(base: Include, additional: Include, aliases = false): Include {
+    const result: Include = { ...base };
+    for (const [key, value] of Object.entries(additional)) {
+      result[key] = result[key] !== undefined
+        ? this.mergeFieldValues(result[key], value, aliases ? key : undefined)
+        : value;
+    }
+    return result;
+  }
 
-          const { value } = name;
+  /**
+   * Merges two selections of the same field into the union of their field sets.
+   * Arguments are kept only when both selections agree on them, since a single
+   * Prisma query cannot honor two different values. Paging arguments only hold
+   * when every argument agrees; otherwise they are dropped, so the merged query
+   * fetches a superset of the rows of both. Under a pagination policy such a
+   * query would be unlimited, so aliases with different arguments are rejected.
+   * @param alias Field name, when merging the selections of two aliases
+   */
+  private mergeFieldValues(
+    existing: boolean | SelectInclude,
+    incoming: boolean | SelectInclude,
+    alias?: string
+  ): boolean | SelectInclude {
+    if (typeof existing !== 'object') {
+      return incoming;
+    }
+    if (typeof incoming !== 'object') {
+      return existing;
+    }
 
-          if (this.excludeFields.includes(value)) {
-            // Skip excluded field, return accumulator as-is
-            return acc;
-          }
+    const { select: existingSelect, include: existingInclude, ...existingArgs } = existing;
+    const { select: incomingSelect, include: incomingInclude, ...incomingArgs } = incoming;
 
-          const args = this.getPrismaArgs(selection.arguments);
-          let fieldVal: any = this.selectOrIncludeOrBoolean(
-            this.transformSelections(nestedSelections)
-          );
+    const nested = this.mergeIncludes(
+      existingSelect || existingInclude || {},
+      incomingSelect || incomingInclude || {},
+      alias !== undefined
+    );
 
-          if (Object.keys(args).length > 0) {
-            if (typeof fieldVal === 'object') {
-              fieldVal = { ...fieldVal, ...args };
-            } else {
-              fieldVal = args;
-            }
-          }
+    const sameArgs = Object.keys({ ...existingArgs, ...incomingArgs }).every((key) =>
+      JSON.stringify((existingArgs as Record<string, any>)[key]) === JSON.stringify((incomingArgs as Record<string, any>)[key])
+    );
+    if (!sameArgs && alias !== undefined && this.pagination) {
+      throw new GQLPrismaSelectError(
+        `Aliases of "${alias}" request different arguments and cannot be merged under a pagination policy; ` +
+        'query them separately with getAliases'
+      );
+    }
+    const args: Record<string, any> = {};
+    for (const [key, value] of Object.entries(existingArgs)) {
+      if (!sameArgs && PAGING_ARGS.includes(key)) {
+        continue;
+      }
+      if (JSON.stringify(value) === JSON.stringify((incomingArgs as Record<string, any>)[key])) {
+        args[key] = value;
+      }
+    }
+
+    return this.withArgs(this.selectOrIncludeOrBoolean(nested), args);
+  }
+
+  /**
+   * Collects the fields of a selection set grouped by response key, following
+   * the spec's CollectFields algorithm: inline fragments and fragment spreads are
+   * expanded in place and skipped branches are dropped. When fragment options are
+   * configured, spreads resolve to their preprocessed selections instead. With a
+   * runtime type, fragments whose type condition does not apply to it are dropped.
+   */
+  private collectFields(
+    selections: readonly any[] | undefined,
+    typeName: string | undefined,
+    processedFragments: Record<string, Include> | undefined,
+    runtimeType?: string,
+    collected: CollectedFields = { fields: new Map(), fragments: [] },
+    visitedFragments: Set<string> = new Set()
+  ): CollectedFields {
+    for (const selection of selections || []) {
+      // Skip branches excluded by @skip / @include
+      if (!this.shouldIncludeNode(selection)) {
+        continue;
+      }
+
+      if (selection.kind === Kind.FIELD) {
+        // Validate field structure
+        if (!selection.name || !selection.name.value) {
+          throw new Error('Field node must have a name');
+        }
 
-          acc[value] = fieldVal;
-        } else if (selection.kind === Kind.INLINE_FRAGMENT) {
-          // Merge inline fragment selections into accumulator
-          const inlineSelections = this.transformSelections(nestedSelections);
-          acc = { ...acc, ...inlineSelections };
-        } else if (selection.kind === Kind.FRAGMENT_SPREAD) {
-          // Check if fragment exists in processed fragments
-          const fragmentName = name?.value;
-          const fragment = fragmentName ? this.fragments[fragmentName] : null;
+        const responseKey = selection.alias?.value || selection.name.value;
+        const field = collected.fields.get(responseKey);
+        if (field) {
+          field.nodes.push(selection);
+        } else {
+          collected.fields.set(responseKey, { nodes: [selection], typeName });
+        }
+      } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+        if (!this.doesTypeConditionApply(selection.typeCondition?.name.value, runtimeType)) {
+          continue;
+        }
+        this.collectFields(
+          selection.selectionSet?.selections,
+          selection.typeCondition?.name.value || typeName,
+          processedFragments,
+          runtimeType,
+          collected,
+          visitedFragments
+        );
+      } else if (selection.kind === Kind.FRAGMENT_SPREAD) {
+        const fragmentName = selection.name?.value;
+        if (!fragmentName || visitedFragments.has(fragmentName)) {
+          continue;
+        }
+        const typeCondition = this.info.fragments?.[fragmentName]?.typeCondition?.name.value;
+        if (!this.doesTypeConditionApply(typeCondition, runtimeType)) {
+          continue;
+        }
+        visitedFragments.add(fragmentName);
+
+        if (processedFragments) {
+          // If fragment doesn't exist, skip it (don't throw error)
+          const fragment = processedFragments[fragmentName];
           if (fragment) {
-            // Fragment is already processed with advanced features, merge it directly
-            acc = { ...acc, ...fragment };
-
-            // Check if fragment should be cached
-            if (this.fragmentCache) {
-              const cacheKey = FragmentCache.generateKey({
-                name: fragmentName,
-                type: 'Unknown', // Type not needed for caching key
-                selections: fragment,
-                metadata: {
-                  size: this.calculateFragmentSize(fragment),
-                  complexity: this.calculateFragmentComplexity(fragment),
-                  dependencies: [],
-                  usageCount: 0,
-                  lastUsed: new Date()
-                }
-              });
-
-              // Try to get from cache first
-              const cachedFragment = this.fragmentCache.get(cacheKey);
-              if (cachedFragment) {
-                acc = { ...acc, ...cachedFragment.selections };
-              } else {
-                // Cache the fragment for future use
-                this.fragmentCache.set(cacheKey, {
-                  name: fragmentName,
-                  type: 'Unknown',
-                  selections: fragment,
-                  metadata: {
-                    size: this.calculateFragmentSize(fragment),
-                    complexity: this.calculateFragmentComplexity(fragment),
-                    dependencies: [],
-                    usageCount: 0,
-                    lastUsed: new Date()
-                  }
-                });
-              }
-            }
+            collected.fragments.push({ name: fragmentName, selections: fragment });
           }
-          // If fragment doesn't exist, skip it (don't throw error)
+        } else {
+          const fragment = this.info.fragments?.[fragmentName];
+          this.collectFields(
+            fragment?.selectionSet?.selections,
+            fragment?.typeCondition?.name.value || typeName,
+            processedFragments,
+            runtimeType,
+            collected,
+            visitedFragments
+          );
         }
-        return acc;
-      }, {}) || {};
-    return res;
+      }
+    }
+    return collected;
+  }
+
+  /**
+   * Checks if a fragment's type condition applies to a concrete runtime type,
+   * either directly or through an abstract type the runtime type belongs to
+   */
+  private doesTypeConditionApply(typeCondition?: string, runtimeType?: string): boolean {
+    if (!typeCondition || !runtimeType || typeCondition === runtimeType) {
+      return true;
+    }
+
+    const schema = this.info.schema;
+    if (typeof schema?.getType !== 'function') {
+      return false;
+    }
+    const conditionType = schema.getType(typeCondition);
+    const type = schema.getType(runtimeType);
+    return !!conditionType && isAbstractType(conditionType) && isObjectType(type) &&
+      schema.isSubType(conditionType, type);
+  }
+
+  private transformSelections(
+    selections?: readonly any[],
+    typeName?: string,
+    processedFragments: Record<string, Include> | undefined = this.usesProcessedFragments() ? this.fragments : undefined,
+    runtimeType?: string,
+    path: string[] = []
+  ): Include {
+    const { fields, fragments } = this.collectFields(selections, typeName, processedFragments, runtimeType);
+    let acc: Include = {};
+    let dependencies: Include = {};
+    let counts: Include = {};
+
+    for (const [responseKey, field] of fields) {
+      const { value } = field.nodes[0].name;
+      const fieldPath = [...path, responseKey];
+
+      if (this.excludeFields.includes(value)) {
+        // Skip excluded field
+        continue;
+      }
+
+      // Unauthorized fields are never fetched; substitutes are selected instead
+      const authorized = this.authorizeField(field, fieldPath);
+      if (authorized !== true) {
+        if (authorized) {
+          dependencies = this.mergeIncludes(dependencies, this.buildDependencySelections(authorized));
+        }
+        continue;
+      }
+
+      // Resolver-only fields are replaced by the Prisma fields they depend on
+      const computed = field.typeName && this.computedFields?.[field.typeName]?.[value];
+      if (computed) {
+        dependencies = this.mergeIncludes(dependencies, this.buildDependencySelections(computed));
+        continue;
+      }
+
+      // Count fields are selected as relation counts under `_count`
+      const count = field.typeName && this.countFields?.[field.typeName]?.[value];
+      if (count) {
+        counts = this.mergeIncludes(counts, this.buildCountSelection(count, field, fieldPath));
+        continue;
+      }
+
+      const fieldVal = this.transformField(field, processedFragments, fieldPath);
+
+      acc[value] = this.mergeAliases && acc[value] !== undefined
+        ? this.mergeFieldValues(acc[value], fieldVal, value)
+        : fieldVal;
+    }
+
+    // Dependencies are merged last so requested relations extend rather than replace them
+    acc = this.mergeIncludes(acc, dependencies);
+    if (Object.keys(counts).length > 0) {
+      acc = this.mergeIncludes(acc, { _count: { select: counts } });
+    }
+
+    for (const { name: fragmentName, selections: fragment } of fragments) {
+      // Fragment is already processed with advanced features, merge it directly
+      acc = this.mergeIncludes(acc, fragment);
+
+      // Check if fragment should be cached
+      if (this.fragmentCache && processedFragments === this.fragments) {
+        const cacheKey = FragmentCache.generateKey({
+          name: fragmentName,
+          type: 'Unknown', // Type not needed for caching key
+          selections: fragment,
+          metadata: {
+            size: this.calculateFragmentSize(fragment),
+            complexity: this.calculateFragmentComplexity(fragment),
+            dependencies: [],
+            usageCount: 0,
+            lastUsed: new Date()
+          }
+        });
+
+        // Try to get from cache first
+        const cachedFragment = this.fragmentCache.get(cacheKey);
+        if (cachedFragment) {
+          acc = this.mergeIncludes(acc, cachedFragment.selections);
+        } else {
+          // Cache the fragment for future use
+          this.fragmentCache.set(cacheKey, {
+            name: fragmentName,
+            type: 'Unknown',
+            selections: fragment,
+            metadata: {
+              size: this.calculateFragmentSize(fragment),
+              complexity: this.calculateFragmentComplexity(fragment),
+              dependencies: [],
+              usageCount: 0,
+              lastUsed: new Date()
+            }
+          });
+        }
+      }
+    }
+
+    return acc;
+  }
+
+  /**
+   * Builds the selection of a single collected field with its Prisma arguments
+   */
+  private transformField(
+    field: CollectedField,
+    processedFragments: Record<string, Include> | undefined,
+    path: string[] = []
+  ): boolean | SelectInclude {
+    const { nodes, typeName } = field;
+    // Sub-selections of every node sharing a response key are merged, as in
+    // the spec's field collection; arguments are identical across them
+    const nestedSelections = nodes.flatMap((node) => node.selectionSet?.selections || []);
+    const nestedType = this.resolveFieldType(typeName, nodes[0].name.value);
+
+    return this.withArgs(
+      this.selectOrIncludeOrBoolean(
+        this.transformSelections(nestedSelections, nestedType, processedFragments, undefined, path)
+      ),
+      this.getFieldArgs(field, path)
+    );
+  }
+
+  /**
+   * Evaluates the authorization rule of a field
+   * @returns true to select the field, false to drop it, or the fields to select instead
+   */
+  private authorizeField(field: CollectedField, path: string[]): boolean | string[] {
+    if (!this.authorization || this.preprocessingFragments) {
+      return true;
+    }
+    // Rules are keyed by type, so fields of unknown type can't be authorized
+    if (!field.typeName) {
+      throw new GQLPrismaSelectError(
+        `Cannot authorize field "${path.join('.')}" of unknown type; pass the GraphQL schema or a datamodel`
+      );
+    }
+
+    // Fields of interfaces and unions are subject to the rules of every type they resolve to;
+    // the strictest decision wins
+    let substitutes: string[] | undefined;
+    for (const typeName of this.getAuthorizedTypes(field.typeName)) {
+      const decision = FieldAuthorizer.authorize(this.authorization, {
+        typeName,
+        fieldName: field.nodes[0].name.value,
+        path,
+        args: this.getArgumentValues(field.nodes[0].arguments)
+      });
+      if (decision === false) {
+        return false;
+      }
+      if (decision !== true) {
+        substitutes = [...(substitutes || []), ...decision];
+      }
+    }
+    return substitutes || true;
+  }
+
+  /**
+   * A type and, for abstract types, the concrete types it can resolve to
+   */
+  private getAuthorizedTypes(typeName: string): string[] {
+    const schema = this.info.schema;
+    const type = typeof schema?.getType === 'function' ? schema.getType(typeName) : undefined;
+    if (!type || !isAbstractType(type)) {
+      return [typeName];
+    }
+    return [typeName, ...schema.getPossibleTypes(type).map((possible) => possible.name)];
+  }
+
+  /**
+   * Prisma arguments of a collected field, with the where allowlist and the
+   * pagination policy applied
+   */
+  private getFieldArgs(field: CollectedField, path: string[]): Record<string, any> {
+    const { nodes, typeName } = field;
+    const fieldName = nodes[0].name.value;
+    const model = this.resolveFieldType(typeName, fieldName);
+    const args = this.sanitizeWhere(this.getPrismaArgs(nodes[0].arguments, typeName, fieldName), model, path);
+    if (!this.pagination) {
+      return args;
+    }
+
+    return PaginationGuard.apply(args, this.pagination, {
+      typeName,
+      fieldName,
+      model,
+      isList: this.isListRelation(typeName, fieldName),
+      datamodel: this.datamodel
+    });
+  }
+
+  /**
+   * Checks the `where` argument of a field against the where allowlist
+   */
+  private sanitizeWhere(args: Record<string, any>, model: string | undefined, path: string[]): Record<string, any> {
+    if (!this.whereOptions || this.preprocessingFragments || args.where === undefined) {
+      return args;
+    }
+
+    const { where, ...rest } = args;
+    const sanitized = WhereValidator.apply(
+      where,
+      model,
+      this.whereOptions,
+      (typeName, fieldName) => this.resolveRelationModel(typeName, fieldName),
+      [...path, 'where']
+    );
+    return Object.keys(sanitized).length > 0 ? { ...rest, where: sanitized } : rest;
+  }
+
+  /**
+   * Model of a relation field from the Prisma datamodel or the GraphQL schema,
+   * null for other fields, or undefined when the field is unknown
+   */
+  private resolveRelationModel(typeName: string, fieldName: string): string | null | undefined {
+    const definition = this.datamodel?.getField(typeName, fieldName);
+    if (definition) {
+      return definition.kind === 'object' ? definition.type : null;
+    }
+
+    const type = typeof this.info.schema?.getType === 'function'
+      ? this.info.schema.getType(typeName)
+      : undefined;
+    const field = type && 'getFields' in type ? type.getFields()[fieldName] : undefined;
+    if (!field) {
+      return undefined;
+    }
+    const fieldType = getNamedType(field.type);
+    return isCompositeType(fieldType) ? fieldType.name : null;
+  }
+
+  /**
+   * Checks if a field is a to-many relation, from the GraphQL schema or the
+   * Prisma datamodel. Unknown fields are not, since Prisma rejects `take` on
+   * to-one relations
+   */
+  private isListRelation(typeName: string | undefined, fieldName: string): boolean {
+    if (!typeName) {
+      return false;
+    }
+
+    const type = typeof this.info.schema?.getType === 'function'
+      ? this.info.schema.getType(typeName)
+      : undefined;
+    if (type && 'getFields' in type) {
+      const field = type.getFields()[fieldName];
+      if (field) {
+        return isListType(getNullableType(field.type)) && isCompositeType(getNamedType(field.type));
+      }
+    }
+
+    const field = this.datamodel?.getField(typeName, fieldName);
+    return field?.kind === 'object' && field.isList;
+  }
+
+  /**
+   * Resolves the named type of a field from the GraphQL schema, falling back
+   * to the relation's target model in the Prisma datamodel
+   */
+  private resolveFieldType(typeName: string | undefined, fieldName: string): string | undefined {
+    if (!typeName) {
+      return undefined;
+    }
+
+    const type = typeof this.info.schema?.getType === 'function'
+      ? this.info.schema.getType(typeName)
+      : undefined;
+    if (type && 'getFields' in type) {
+      const field = type.getFields()[fieldName];
+      if (field) {
+        return getNamedType(field.type).name;
+      }
+    }
+
+    return this.datamodel?.getRelationModel(typeName, fieldName);
+  }
+
+  /**
+   * Builds selections for dotted dependency paths, e.g. 'profile.avatarKey'
+   */
+  private buildDependencySelections(dependencies: string[]): Include {
+    return dependencies.reduce<Include>((acc, dependency) => {
+      const [field, ...rest] = dependency.split('.');
+      const value = rest.length > 0
+        ? { select: this.buildDependencySelections([rest.join('.')]) }
+        : true;
+      return this.mergeIncludes(acc, { [field]: value });
+    }, {});
+  }
+
+  /**
+   * Builds the `_count` entry of a count field. Only `where` is supported by
+   * Prisma inside `_count`; a static filter and the field's filter are combined
+   */
+  private buildCountSelection(
+    count: string | { relation: string; where?: any },
+    field: CollectedField,
+    path: string[]
+  ): Include {
+    const { relation, where: staticWhere } = typeof count === 'string'
+      ? { relation: count, where: undefined }
+      : count;
+    const { where } = this.sanitizeWhere(
+      this.getPrismaArgs(field.nodes[0].arguments, field.typeName, field.nodes[0].name.value),
+      this.resolveFieldType(field.typeName, relation),
+      path
+    );
+
+    const filter = staticWhere && where ? { AND: [staticWhere, where] } : staticWhere || where;
+    return { [relation]: filter ? { where: filter } : true };
   }
 
   private transformPrismaIncludeFromQuery(info: GraphQLResolveInfo) {
-    const mapped = this.transformSelections(
-      info?.fieldNodes[0]?.selectionSet?.selections
+    // The resolver receives one node per occurrence of the field in its parent
+    // selection set; all of them contribute to the selection
+    return this.transformSelections(
+      this.getRootSelections(),
+      this.rootType,
+      undefined,
+      undefined,
+      this.getRootPath()
     );
+  }
 
-    const res = this.selectOrInclude(mapped);
-    return res;
+  /**
+   * Response path of the resolver's field
+   */
+  private getRootPath(): string[] {
+    const [node] = this.info.fieldNodes;
+    return [node.alias?.value || node.name.value, ...this.payloadPath];
   }
 
   private static pathCache = new Map<string, string[]>();
@@ -478,6 +1374,287 @@ export class GQLPrismaSelect<S = any, I = any> {
     return GQLPrismaSelect.get(rest, obj.select || obj.include);
   }
 
+  /**
+   * Get the selections requested for a field under each of its aliases
+   * @param path Dotted field path from the resolver root (e.g. 'posts' or 'posts.comments')
+   * @returns Map of alias (response key) to its own selection and Prisma arguments
+   */
+  getAliases(path: string | string[]): Record<string, AliasSelection> {
+    if (!this.aliasSelections) {
+      this.aliasSelections = new Map();
+      this.collectAliases(
+        this.getRootSelections(),
+        this.rootType,
+        [],
+        this.getRootPath()
+      );
+    }
+    const key = Array.isArray(path) ? path.join('.') : path;
+    return this.aliasSelections.get(key) || {};
+  }
+
+  /**
+   * Get the selection of each concrete type of a union or interface field.
+   * Fragments only contribute to the types their type condition applies to,
+   * so each Prisma model can be queried with its own fields only.
+   * @returns Map of concrete type name to its selection
+   */
+  getTypeSelections(): Record<string, TypeSelection> {
+    if (this.typeSelections) {
+      return this.typeSelections;
+    }
+
+    const selections = this.info.fieldNodes.flatMap((node) => node.selectionSet?.selections || []);
+    this.typeSelections = {};
+    for (const type of this.getPossibleTypes(selections)) {
+      const typeSelections = this.transformSelections(selections, type, undefined, type, this.getRootPath());
+      const selection = this.transformationEngine
+        ? this.transformationEngine.transformSelections(typeSelections)
+        : typeSelections;
+
+      this.typeSelections[type] = this.datamodel?.hasModel(type)
+        ? { type, select: this.buildModelSelect(type, selection) }
+        : { type, ...this.selectOrInclude(selection) };
+    }
+    return this.typeSelections;
+  }
+
+  /**
+   * Whether a field is requested
+   * @param path Dotted field path from the resolver root (e.g. 'posts.author')
+   */
+  isRequested(path: string | string[]): boolean {
+    return this.lookupField(this.toPath(path)) !== undefined;
+  }
+
+  /**
+   * Get the Prisma arguments (take, where, orderBy, ...) a relation is requested with
+   * @param path Dotted field path from the resolver root (e.g. 'posts.author')
+   * @returns The arguments, or undefined if the field is not requested
+   */
+  getRequestedArgs(path: string | string[]): Record<string, any> | undefined {
+    const field = this.lookupField(this.toPath(path));
+    if (!field) {
+      return undefined;
+    }
+    if (typeof field.value !== 'object') {
+      return {};
+    }
+    const { select, include, ...args } = field.value;
+    return args;
+  }
+
+  /**
+   * Get the scalar fields requested of a relation, or of the resolver's field
+   * @param path Dotted field path from the resolver root; the root by default
+   */
+  getScalarFields(path?: string | string[]): string[] {
+    const field = this.lookupField(this.toPath(path));
+    if (!field) {
+      return [];
+    }
+    return Object.entries(this.getChildSelections(field.value))
+      .filter(([name, value]) => this.isScalarSelection(field.typeName, name, value))
+      .map(([name]) => name);
+  }
+
+  /**
+   * Get the scalar fields requested of a type anywhere in the selection,
+   * e.g. to know which columns of `User` a query needs
+   */
+  getScalarFieldsOfType(typeName: string): string[] {
+    const fields = new Set<string>();
+    const visit = (selections: Include, type: string | undefined): void => {
+      for (const [name, value] of Object.entries(selections)) {
+        if (this.isScalarSelection(type, name, value)) {
+          if (type === typeName) {
+            fields.add(name);
+          }
+        } else if (name !== '_count') {
+          visit(this.getChildSelections(value), this.resolveFieldType(type, name));
+        }
+      }
+    };
+    visit((this.originalSelect || this.originalInclude || {}) as Include, this.rootType);
+    return Array.from(fields);
+  }
+
+  /**
+   * Whether a relation (or the resolver's field) selects any relations, e.g.
+   * to decide between including them and deferring to field resolvers
+   * @param path Dotted field path from the resolver root; the root by default
+   */
+  hasRelations(path?: string | string[]): boolean {
+    const field = this.lookupField(this.toPath(path));
+    if (!field) {
+      return false;
+    }
+    return Object.entries(this.getChildSelections(field.value))
+      .some(([name, value]) => name !== '_count' && !this.isScalarSelection(field.typeName, name, value));
+  }
+
+  /**
+   * Find a requested field in the original selection, with the type its selections belong to
+   */
+  private lookupField(path: string[]): { value: boolean | SelectInclude; typeName?: string } | undefined {
+    let field: { value: boolean | SelectInclude; typeName?: string } = {
+      value: { select: (this.originalSelect || this.originalInclude || {}) as Include },
+      typeName: this.rootType
+    };
+
+    for (const name of path) {
+      const value = this.getChildSelections(field.value)[name];
+      if (value === undefined || value === false) {
+        return undefined;
+      }
+      field = { value, typeName: name === '_count' ? undefined : this.resolveFieldType(field.typeName, name) };
+    }
+    return field;
+  }
+
+  private getChildSelections(value: boolean | SelectInclude): Include {
+    return typeof value === 'object' ? value.select || value.include || {} : {};
+  }
+
+  /**
+   * Selections with sub-selections or arguments are relations; relations
+   * selected with `true` are told apart by the schema or the datamodel
+   */
+  private isScalarSelection(typeName: string | undefined, name: string, value: boolean | SelectInclude): boolean {
+    if (name === '_count' || typeof value === 'object') {
+      return false;
+    }
+    return !typeName || !this.isCompositeField(typeName, name);
+  }
+
+  private isCompositeField(typeName: string, fieldName: string): boolean {
+    const type = typeof this.info.schema?.getType === 'function'
+      ? this.info.schema.getType(typeName)
+      : undefined;
+    if (type && 'getFields' in type) {
+      const field = type.getFields()[fieldName];
+      if (field) {
+        return isCompositeType(getNamedType(field.type));
+      }
+    }
+    return this.datamodel?.getField(typeName, fieldName)?.kind === 'object';
+  }
+
+  /**
+   * Concrete types the field can resolve to, from the schema when available,
+   * otherwise from the type conditions used in the query
+   */
+  private getPossibleTypes(selections: readonly any[]): string[] {
+    const returnType = getNamedType(this.info.returnType);
+    if (isObjectType(returnType)) {
+      return [returnType.name];
+    }
+    if (isAbstractType(returnType) && typeof this.info.schema?.getPossibleTypes === 'function') {
+      return this.info.schema.getPossibleTypes(returnType).map((type) => type.name);
+    }
+
+    const types = new Set<string>();
+    const visitedFragments = new Set<string>();
+    const collectTypeConditions = (nodes: readonly any[] | undefined) => {
+      for (const node of nodes || []) {
+        if (node.kind === Kind.INLINE_FRAGMENT) {
+          if (node.typeCondition) {
+            types.add(node.typeCondition.name.value);
+          }
+          collectTypeConditions(node.selectionSet?.selections);
+        } else if (node.kind === Kind.FRAGMENT_SPREAD && !visitedFragments.has(node.name.value)) {
+          visitedFragments.add(node.name.value);
+          const fragment = this.info.fragments?.[node.name.value];
+          if (fragment?.typeCondition) {
+            types.add(fragment.typeCondition.name.value);
+          }
+          collectTypeConditions(fragment?.selectionSet?.selections);
+        }
+      }
+    };
+    collectTypeConditions(selections);
+    return Array.from(types);
+  }
+
+  /**
+   * Apply filter policies to an alias selection, which may be queried on its own
+   */
+  private applyFiltersToAlias(entry: AliasSelection, field: CollectedField): void {
+    const relation = field.typeName && this.datamodel!.getField(field.typeName, entry.field);
+    if (!relation || relation.kind !== 'object') {
+      return;
+    }
+
+    if (entry.select || entry.include) {
+      entry.select = this.buildModelSelect(relation.type, (entry.select || entry.include)!);
+      entry.include = undefined;
+    }
+    // Prisma only filters to-many relations
+    if (relation.isList) {
+      const where = QueryFilters.applyToWhere(entry.args.where, relation.type, this.filters!);
+      if (where) {
+        entry.args = { ...entry.args, where };
+      }
+    }
+  }
+
+  private collectAliases(
+    selections: readonly any[] | undefined,
+    typeName: string | undefined,
+    path: string[],
+    responsePath: string[]
+  ): void {
+    const { fields } = this.collectFields(selections, typeName, undefined);
+
+    for (const [alias, field] of fields) {
+      const fieldName = field.nodes[0].name.value;
+      if (this.excludeFields.includes(fieldName)) {
+        continue;
+      }
+
+      const fieldResponsePath = [...responsePath, alias];
+      if (this.authorizeField(field, fieldResponsePath) !== true) {
+        continue;
+      }
+
+      const value = this.transformField(field, undefined, fieldResponsePath);
+      const entry: AliasSelection = {
+        alias,
+        field: fieldName,
+        args: this.getFieldArgs(field, fieldResponsePath),
+        ...(typeof value === 'object' ? { select: value.select, include: value.include } : {})
+      };
+      if (this.filters) {
+        this.applyFiltersToAlias(entry, field);
+      }
+
+      // The same alias can appear under several parents, e.g. under two aliases of the parent
+      const fieldPath = [...path, fieldName];
+      const key = fieldPath.join('.');
+      const aliases = this.aliasSelections!.get(key) || {};
+      const existing = aliases[alias];
+      if (existing) {
+        const merged = this.mergeIncludes(
+          existing.select || existing.include || {},
+          entry.select || entry.include || {}
+        );
+        if (Object.keys(merged).length > 0) {
+          aliases[alias] = { ...existing, ...this.selectOrInclude(merged) };
+        }
+      } else {
+        aliases[alias] = entry;
+      }
+      this.aliasSelections!.set(key, aliases);
+
+      this.collectAliases(
+        field.nodes.flatMap((node) => node.selectionSet?.selections || []),
+        this.resolveFieldType(field.typeName, fieldName),
+        fieldPath,
+        fieldResponsePath
+      );
+    }
+  }
+
   /**
    * Transforms result data back to GraphQL format
    * @param result The result data from Prisma query
@@ -505,39 +1682,13 @@ export class GQLPrismaSelect<S = any, I = any> {
 
 
   // Helper methods for fragment processing
-  private transformFragmentSelections(selections: readonly any[], processedFragments?: Record<string, Include>): Include {
-    return selections?.reduce((acc, selection) => {
-      const { name, selectionSet } = selection;
-      const { value } = name;
-      const { selections: nestedSelections } = selectionSet || {};
-
-      if (selection.kind === Kind.FIELD) {
-        if (this.excludeFields.includes(value)) {
-          return acc;
-        }
-        const args = this.getPrismaArgs(selection.arguments);
-        let fieldVal: any = this.selectOrIncludeOrBoolean(
-          this.transformFragmentSelections(nestedSelections, processedFragments)
-        );
-
-        if (Object.keys(args).length > 0) {
-          if (typeof fieldVal === 'object') {
-            fieldVal = { ...fieldVal, ...args };
-          } else {
-            fieldVal = args;
-          }
-        }
-
-        acc[value] = fieldVal;
-      } else if (selection.kind === Kind.FRAGMENT_SPREAD) {
-        // Use processed fragments parameter if available, otherwise fall back to this.fragments
-        const fragment = processedFragments ? processedFragments[value] : this.fragments[value];
-        if (fragment) {
-          acc = { ...acc, ...fragment };
-        }
-      }
-      return acc;
-    }, {}) || {};
+  private transformFragmentSelections(
+    selections: readonly any[],
+    processedFragments?: Record<string, Include>,
+    typeName?: string
+  ): Include {
+    // Use processed fragments parameter if available, otherwise fall back to this.fragments
+    return this.transformSelections(selections, typeName, processedFragments || this.fragments);
   }
 
   private calculateFragmentSize(selections: Include): number {
@@ -5,6 +5,8 @@ import {
   createFieldNode,
   createFragmentSpreadNode,
   createFragmentDefinition,
+  createVariableNode,
+  createDirectiveNode,
 } from './helpers/mockGraphQLInfo';
 import {
   buildSimpleSelection,
@@ -1278,6 +1280,533 @@ describe('GQLPrismaSelect', () => {
         expect(result.args.skip).toBe(2);
       });
     });
+
+    describe('23. Variable arguments', () => {
+      it('should resolve variables from info.variableValues', () => {
+        const fieldNodes = [
+          createFieldNode('Posts', [createFieldNode('id')], [
+            { name: 'take', value: createVariableNode('limit') },
+            { name: 'where', value: createVariableNode('filter') }
+          ])
+        ];
+        const info = createMockGraphQLInfo(fieldNodes);
+        (info as any).variableValues = {
+          limit: 5,
+          filter: { published: true }
+        };
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.include?.Posts.take).toBe(5);
+        expect(result.include?.Posts.where).toEqual({ published: true });
+      });
+
+      it('should resolve variables nested in object and list literals', () => {
+        const fieldNodes = [
+          createFieldNode('Posts', [createFieldNode('id')], [
+            {
+              name: 'where',
+              value: {
+                authorId: createVariableNode('authorId'),
+                tags: { hasSome: [createVariableNode('tag'), 'news'] }
+              }
+            }
+          ])
+        ];
+        const info = createMockGraphQLInfo(fieldNodes);
+        (info as any).variableValues = { authorId: 7, tag: 'tech' };
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.include?.Posts.where).toEqual({
+          authorId: 7,
+          tags: { hasSome: ['tech', 'news'] }
+        });
+      });
+
+      it('should fall back to operation default values', () => {
+        const fieldNodes = [createFieldNode('id')];
+        const info = createMockGraphQLInfo(fieldNodes);
+        (info.fieldNodes[0] as any).arguments = [
+          {
+            kind: Kind.ARGUMENT,
+            name: { kind: Kind.NAME, value: 'take' },
+            value: createVariableNode('limit')
+          }
+        ];
+        (info.operation as any).variableDefinitions = [
+          {
+            kind: Kind.VARIABLE_DEFINITION,
+            variable: createVariableNode('limit'),
+            type: { kind: Kind.NAMED_TYPE, name: { kind: Kind.NAME, value: 'Int' } },
+            defaultValue: { kind: Kind.INT, value: '20' }
+          }
+        ];
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.args.take).toBe(20);
+      });
+
+      it('should prefer provided variables over default values', () => {
+        const fieldNodes = [createFieldNode('id')];
+        const info = createMockGraphQLInfo(fieldNodes);
+        (info.fieldNodes[0] as any).arguments = [
+          {
+            kind: Kind.ARGUMENT,
+            name: { kind: Kind.NAME, value: 'take' },
+            value: createVariableNode('limit')
+          }
+        ];
+        (info.operation as any).variableDefinitions = [
+          {
+            kind: Kind.VARIABLE_DEFINITION,
+            variable: createVariableNode('limit'),
+            type: { kind: Kind.NAMED_TYPE, name: { kind: Kind.NAME, value: 'Int' } },
+            defaultValue: { kind: Kind.INT, value: '20' }
+          }
+        ];
+        (info as any).variableValues = { limit: 3 };
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.args.take).toBe(3);
+      });
+
+      it('should omit arguments bound to unset variables', () => {
+        const fieldNodes = [
+          createFieldNode('Posts', [createFieldNode('id')], [
+            { name: 'take', value: createVariableNode('limit') },
+            { name: 'where', value: { authorId: createVariableNode('authorId') } }
+          ])
+        ];
+        const info = createMockGraphQLInfo(fieldNodes);
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.include?.Posts).not.toHaveProperty('take');
+        expect(result.include?.Posts.where).toEqual({});
+      });
+    });
   });
-});
 
+  describe('Phase 9: Directives', () => {
+    describe('24. @skip and @include', () => {
+      it('should drop fields with @include(if: false)', () => {
+        const posts = createFieldNode('posts', [createFieldNode('id')]);
+        posts.directives = [createDirectiveNode('include', false)];
+        const info = createMockGraphQLInfo([createFieldNode('id'), posts]);
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.select).toEqual({ id: true });
+      });
+
+      it('should drop fields with @skip(if: true) and keep @skip(if: false)', () => {
+        const email = createFieldNode('email');
+        email.directives = [createDirectiveNode('skip', true)];
+        const name = createFieldNode('name');
+        name.directives = [createDirectiveNode('skip', false)];
+        const info = createMockGraphQLInfo([createFieldNode('id'), email, name]);
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.select).toEqual({ id: true, name: true });
+      });
+
+      it('should evaluate directive conditions from variables', () => {
+        const posts = createFieldNode('posts', [createFieldNode('id')]);
+        posts.directives = [createDirectiveNode('include', createVariableNode('withPosts'))];
+        const comments = createFieldNode('comments', [createFieldNode('id')]);
+        comments.directives = [createDirectiveNode('include', createVariableNode('withComments'))];
+        const info = createMockGraphQLInfo([createFieldNode('id'), posts, comments]);
+        (info as any).variableValues = { withPosts: false, withComments: true };
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.select?.posts).toBeUndefined();
+        expect(result.select?.comments).toEqual({ select: { id: true } });
+      });
+
+      it('should require both @skip and @include to pass', () => {
+        const email = createFieldNode('email');
+        email.directives = [
+          createDirectiveNode('include', true),
+          createDirectiveNode('skip', true),
+        ];
+        const info = createMockGraphQLInfo([createFieldNode('id'), email]);
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.select).toEqual({ id: true });
+      });
+
+      it('should drop inline fragments and fragment spreads', () => {
+        const inlineFragment = {
+          kind: Kind.INLINE_FRAGMENT,
+          selectionSet: {
+            kind: Kind.SELECTION_SET,
+            selections: [createFieldNode('email')],
+          },
+          directives: [createDirectiveNode('skip', true)],
+        };
+        const spread = createFragmentSpreadNode('UserPosts');
+        spread.directives = [createDirectiveNode('include', false)];
+        const info = createMockGraphQLInfo(
+          [createFieldNode('id'), inlineFragment, spread],
+          {
+            UserPosts: createFragmentDefinition('UserPosts', [
+              createFieldNode('posts', [createFieldNode('id')]),
+            ]),
+          }
+        );
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.select).toEqual({ id: true });
+      });
+
+      it('should honor directives inside fragment definitions', () => {
+        const email = createFieldNode('email');
+        email.directives = [createDirectiveNode('include', createVariableNode('withEmail'))];
+        const info = createMockGraphQLInfo(
+          [createFieldNode('id'), createFragmentSpreadNode('UserFields')],
+          {
+            UserFields: createFragmentDefinition('UserFields', [
+              createFieldNode('name'),
+              email,
+            ]),
+          }
+        );
+        (info as any).variableValues = { withEmail: false };
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.select).toEqual({ id: true, name: true });
+      });
+    });
+  });
+
+  describe('Phase 10: Aliases', () => {
+    const aliased = (alias: string, node: any) => ({
+      ...node,
+      alias: { kind: Kind.NAME, value: alias },
+    });
+
+    const buildAliasedPosts = () => [
+      createFieldNode('id'),
+      aliased('recent', createFieldNode('posts', [createFieldNode('id'), createFieldNode('title')], [
+        { name: 'take', value: 5 },
+      ])),
+      aliased('popular', createFieldNode('posts', [createFieldNode('id'), createFieldNode('likes')], [
+        { name: 'take', value: 5 },
+        { name: 'orderBy', value: { likes: 'desc' } },
+      ])),
+    ];
+
+    describe('25. Alias merging', () => {
+      it('should keep the last alias by default', () => {
+        const info = createMockGraphQLInfo(buildAliasedPosts());
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.select?.posts).toEqual({
+          select: { id: true, likes: true },
+          take: 5,
+          orderBy: { likes: 'desc' },
+        });
+      });
+
+      it('should merge alias selections into the union of their fields', () => {
+        const info = createMockGraphQLInfo(buildAliasedPosts());
+
+        const result = new GQLPrismaSelect(info, { mergeAliases: true });
+
+        expect(result.select?.posts.select).toEqual({
+          id: true,
+          title: true,
+          likes: true,
+        });
+      });
+
+      it('should drop the paging arguments of aliases with different orderBy', () => {
+        const info = createMockGraphQLInfo(buildAliasedPosts());
+
+        const result = new GQLPrismaSelect(info, { mergeAliases: true });
+
+        // Five recent and five popular posts are not the first five of either order
+        expect(result.select?.posts).not.toHaveProperty('take');
+        expect(result.select?.posts).not.toHaveProperty('orderBy');
+      });
+
+      it('should keep only the arguments shared by all aliases', () => {
+        const info = createMockGraphQLInfo([
+          createFieldNode('id'),
+          aliased('a', createFieldNode('posts', [createFieldNode('id')], [
+            { name: 'where', value: { published: true } },
+            { name: 'take', value: 5 },
+            { name: 'skip', value: 10 },
+          ])),
+          aliased('b', createFieldNode('posts', [createFieldNode('title')], [
+            { name: 'where', value: { published: true } },
+            { name: 'take', value: 10 },
+          ])),
+        ]);
+
+        const result = new GQLPrismaSelect(info, { mergeAliases: true });
+
+        expect(result.select?.posts).toEqual({
+          select: { id: true, title: true },
+          where: { published: true },
+        });
+      });
+
+      it('should keep the paging arguments of aliases with the same arguments', () => {
+        const info = createMockGraphQLInfo([
+          createFieldNode('id'),
+          aliased('a', createFieldNode('posts', [createFieldNode('id')], [
+            { name: 'take', value: 5 },
+            { name: 'orderBy', value: { likes: 'desc' } },
+          ])),
+          aliased('b', createFieldNode('posts', [createFieldNode('title')], [
+            { name: 'take', value: 5 },
+            { name: 'orderBy', value: { likes: 'desc' } },
+          ])),
+        ]);
+
+        const result = new GQLPrismaSelect(info, { mergeAliases: true });
+
+        expect(result.select?.posts).toEqual({
+          select: { id: true, title: true },
+          take: 5,
+          orderBy: { likes: 'desc' },
+        });
+      });
+
+      it('should merge nested relations of aliased fields', () => {
+        const info = createMockGraphQLInfo([
+          aliased('a', createFieldNode('posts', [
+            createFieldNode('author', [createFieldNode('name')]),
+          ])),
+          aliased('b', createFieldNode('posts', [
+            createFieldNode('author', [createFieldNode('email')]),
+          ])),
+        ]);
+
+        const result = new GQLPrismaSelect(info, { mergeAliases: true });
+
+        expect(result.include?.posts).toEqual({
+          include: {
+            author: { select: { name: true, email: true } },
+          },
+        });
+      });
+    });
+
+    describe('26. getAliases()', () => {
+      it('should return per-alias selections and arguments', () => {
+        const info = createMockGraphQLInfo(buildAliasedPosts());
+
+        const result = new GQLPrismaSelect(info, { mergeAliases: true });
+        const aliases = result.getAliases('posts');
+
+        expect(Object.keys(aliases)).toEqual(['recent', 'popular']);
+        expect(aliases.recent).toEqual({
+          alias: 'recent',
+          field: 'posts',
+          args: { take: 5 },
+          select: { id: true, title: true },
+          include: undefined,
+        });
+        expect(aliases.popular.args).toEqual({ take: 5, orderBy: { likes: 'desc' } });
+        expect(aliases.popular.select).toEqual({ id: true, likes: true });
+      });
+
+      it('should key unaliased fields by field name', () => {
+        const info = createMockGraphQLInfo([
+          createFieldNode('posts', [createFieldNode('id')]),
+        ]);
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.getAliases('posts')).toEqual({
+          posts: {
+            alias: 'posts',
+            field: 'posts',
+            args: {},
+            select: { id: true },
+            include: undefined,
+          },
+        });
+      });
+
+      it('should collect nested aliases and aliases inside fragments', () => {
+        const info = createMockGraphQLInfo(
+          [
+            createFieldNode('posts', [
+              aliased('latest', createFieldNode('comments', [createFieldNode('id')], [
+                { name: 'take', value: 1 },
+              ])),
+            ]),
+            createFragmentSpreadNode('Extra'),
+          ],
+          {
+            Extra: createFragmentDefinition('Extra', [
+              createFieldNode('posts', [
+                aliased('all', createFieldNode('comments', [createFieldNode('body')])),
+              ]),
+            ]),
+          }
+        );
+
+        const result = new GQLPrismaSelect(info);
+        const aliases = result.getAliases(['posts', 'comments']);
+
+        expect(aliases.latest.args).toEqual({ take: 1 });
+        expect(aliases.all.select).toEqual({ body: true });
+      });
+
+      it('should return an empty object for unknown paths', () => {
+        const info = createMockGraphQLInfo(buildAliasedPosts());
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.getAliases('comments')).toEqual({});
+      });
+    });
+  });
+
+  describe('Phase 11: Field Collection', () => {
+    describe('27. Multiple field nodes', () => {
+      it('should merge selections from every node in info.fieldNodes', () => {
+        const info = createMockGraphQLInfo([
+          createFieldNode('id'),
+          createFieldNode('posts', [createFieldNode('id')]),
+        ]);
+        (info as any).fieldNodes = [
+          ...info.fieldNodes,
+          createFieldNode('query', [
+            createFieldNode('email'),
+            createFieldNode('posts', [createFieldNode('title')]),
+          ]),
+        ];
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.select).toEqual({
+          id: true,
+          email: true,
+          posts: { select: { id: true, title: true } },
+        });
+      });
+
+      it('should collect aliases from every field node', () => {
+        const info = createMockGraphQLInfo([createFieldNode('id')]);
+        (info as any).fieldNodes = [
+          ...info.fieldNodes,
+          createFieldNode('query', [
+            createFieldNode('posts', [createFieldNode('title')], [
+              { name: 'take', value: 2 },
+            ]),
+          ]),
+        ];
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.getAliases('posts').posts.args).toEqual({ take: 2 });
+      });
+    });
+
+    describe('28. Merging repeated fields', () => {
+      it('should deep merge a field requested directly and inside a fragment', () => {
+        const info = createMockGraphQLInfo(
+          [
+            createFieldNode('posts', [createFieldNode('id')]),
+            createFragmentSpreadNode('PostTitles'),
+          ],
+          {
+            PostTitles: createFragmentDefinition('PostTitles', [
+              createFieldNode('posts', [
+                createFieldNode('title'),
+                createFieldNode('author', [createFieldNode('name')]),
+              ]),
+            ]),
+          }
+        );
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.include?.posts).toEqual({
+          select: {
+            id: true,
+            title: true,
+            author: { select: { name: true } },
+          },
+        });
+      });
+
+      it('should deep merge a field repeated inside inline fragments', () => {
+        const info = createMockGraphQLInfo([
+          createFieldNode('posts', [createFieldNode('id')]),
+          {
+            kind: Kind.INLINE_FRAGMENT,
+            selectionSet: {
+              kind: Kind.SELECTION_SET,
+              selections: [createFieldNode('posts', [createFieldNode('title')])],
+            },
+          },
+        ]);
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.include?.posts).toEqual({
+          select: { id: true, title: true },
+        });
+      });
+
+      it('should expand inline fragments inside fragment definitions', () => {
+        const info = createMockGraphQLInfo(
+          [createFragmentSpreadNode('UserFields')],
+          {
+            UserFields: createFragmentDefinition('UserFields', [
+              createFieldNode('id'),
+              {
+                kind: Kind.INLINE_FRAGMENT,
+                selectionSet: {
+                  kind: Kind.SELECTION_SET,
+                  selections: [createFieldNode('email')],
+                },
+              },
+            ]),
+          }
+        );
+
+        const result = new GQLPrismaSelect(info);
+
+        expect(result.select).toEqual({ id: true, email: true });
+      });
+
+      it('should merge preprocessed fragments when fragment options are set', () => {
+        const info = createMockGraphQLInfo(
+          [
+            createFieldNode('posts', [createFieldNode('id')]),
+            createFragmentSpreadNode('PostTitles'),
+          ],
+          {
+            PostTitles: createFragmentDefinition('PostTitles', [
+              createFieldNode('posts', [createFieldNode('title')]),
+            ]),
+          }
+        );
+
+        const result = new GQLPrismaSelect(info, {
+          fragments: { overrides: [] },
+        });
+
+        expect(result.include?.posts).toEqual({
+          select: { id: true, title: true },
+        });
+      });
+    });
+  });
+});
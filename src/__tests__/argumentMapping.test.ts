@@ -0,0 +1,161 @@
+import { Kind } from 'graphql/language/kinds';
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { UnknownArgumentError } from '../errors';
+import { createMockGraphQLInfo, createFieldNode } from './helpers/mockGraphQLInfo';
+
+describe('Argument mapping', () => {
+  const parseSort = (sort: string) =>
+    sort.startsWith('-') ? { [sort.slice(1)]: 'desc' } : { [sort]: 'asc' };
+
+  const createInfo = (postsArgs: any[], rootArgs: any[] = []) => {
+    const info = createMockGraphQLInfo([
+      createFieldNode('id'),
+      createFieldNode('posts', [createFieldNode('title')], postsArgs),
+    ]);
+    const root = createFieldNode('users', [], rootArgs);
+    (info.fieldNodes[0] as any).name = root.name;
+    (info.fieldNodes[0] as any).arguments = root.arguments;
+    (info as any).parentType = { name: 'Query' };
+    return info;
+  };
+
+  it('should ignore non-Prisma arguments by default', () => {
+    const info = createInfo([{ name: 'first', value: 5 }]);
+
+    const result = new GQLPrismaSelect(info);
+
+    expect(result.select?.posts).toEqual({ select: { title: true } });
+  });
+
+  it('should rename arguments', () => {
+    const info = createInfo([
+      { name: 'first', value: 5 },
+      { name: 'offset', value: 10 },
+    ]);
+
+    const result = new GQLPrismaSelect(info, {
+      argumentMapping: { map: { first: 'take', offset: 'skip' } },
+    });
+
+    expect(result.select?.posts.take).toBe(5);
+    expect(result.select?.posts.skip).toBe(10);
+  });
+
+  it('should transform argument values', () => {
+    const info = createInfo([{ name: 'sort', value: '-createdAt' }]);
+
+    const result = new GQLPrismaSelect(info, {
+      argumentMapping: {
+        map: { sort: { to: 'orderBy', transform: parseSort } },
+      },
+    });
+
+    expect(result.select?.posts.orderBy).toEqual({ createdAt: 'desc' });
+  });
+
+  it('should merge arguments returned by mapper functions', () => {
+    const info = createInfo([
+      { name: 'page', value: 3 },
+      { name: 'perPage', value: 20 },
+    ]);
+
+    const result = new GQLPrismaSelect(info, {
+      argumentMapping: {
+        map: {
+          page: (page, args) => ({ take: args.perPage, skip: (page - 1) * args.perPage }),
+          perPage: () => ({}),
+        },
+      },
+    });
+
+    expect(result.select?.posts).toEqual({
+      select: { title: true },
+      take: 20,
+      skip: 40,
+    });
+  });
+
+  it('should map root arguments', () => {
+    const info = createInfo([], [{ name: 'filter', value: { email: 'a@b.c' } }]);
+
+    const result = new GQLPrismaSelect(info, {
+      argumentMapping: { map: { filter: 'where' } },
+    });
+
+    expect(result.args).toEqual({ where: { email: 'a@b.c' } });
+  });
+
+  it('should apply per-field mappings by coordinate', () => {
+    const info = createInfo(
+      [{ name: 'filter', value: { published: true } }],
+      [{ name: 'filter', value: { email: 'a@b.c' } }]
+    );
+
+    const result = new GQLPrismaSelect(info, {
+      argumentMapping: {
+        fields: {
+          'Query.users': { filter: { to: 'where', transform: (where) => ({ AND: [where] }) } },
+          posts: { filter: 'where' },
+        },
+      },
+    });
+
+    expect(result.args).toEqual({ where: { AND: [{ email: 'a@b.c' }] } });
+    expect(result.select?.posts.where).toEqual({ published: true });
+  });
+
+  it('should let per-field mappings override global ones', () => {
+    const info = createInfo([{ name: 'limit', value: 5 }]);
+
+    const result = new GQLPrismaSelect(info, {
+      argumentMapping: {
+        map: { limit: 'take' },
+        fields: { posts: { limit: { to: 'take', transform: (limit) => Math.min(limit, 2) } } },
+      },
+    });
+
+    expect(result.select?.posts.take).toBe(2);
+  });
+
+  it('should reject unknown arguments in strict mode', () => {
+    const info = createInfo([{ name: 'sortBy', value: 'title' }]);
+
+    expect(() => new GQLPrismaSelect(info, { argumentMapping: { strict: true } }))
+      .toThrow(UnknownArgumentError);
+    expect(() => new GQLPrismaSelect(info, { argumentMapping: { strict: true } }))
+      .toThrow('Unknown argument "sortBy" on field "posts"');
+  });
+
+  it('should report the field coordinate when the type is known', () => {
+    const info = createInfo([], [{ name: 'sortBy', value: 'title' }]);
+
+    try {
+      new GQLPrismaSelect(info, { argumentMapping: { strict: true } });
+      fail('Expected UnknownArgumentError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(UnknownArgumentError);
+      expect((error as UnknownArgumentError).argument).toBe('sortBy');
+      expect((error as UnknownArgumentError).field).toBe('Query.users');
+    }
+  });
+
+  it('should accept connection arguments at the root in connection mode', () => {
+    const info = createMockGraphQLInfo([
+      createFieldNode('edges', [createFieldNode('node', [createFieldNode('id')])]),
+    ]);
+    (info.fieldNodes[0] as any).arguments = [
+      {
+        kind: Kind.ARGUMENT,
+        name: { kind: Kind.NAME, value: 'first' },
+        value: { kind: Kind.INT, value: '2' },
+      },
+    ];
+
+    const result = new GQLPrismaSelect(info, {
+      connection: true,
+      argumentMapping: { strict: true },
+    });
+
+    expect(result.args).toEqual({ take: 2 });
+  });
+});
@@ -0,0 +1,150 @@
+import { buildSchema } from 'graphql';
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { AuthorizationOptions } from '../authorization';
+import { ForbiddenFieldError } from '../errors';
+
+describe('Field authorization', () => {
+  const schema = buildSchema(`
+    type User { id: Int ownerId: Int email: String salary: Int posts: [Post] }
+    type Post { id: Int title: String author: User }
+    type Query { users: [User] me: User }
+  `);
+
+  interface Context {
+    role: 'admin' | 'user';
+  }
+
+  const authorization = (role: Context['role'], onDeny?: 'strip' | 'throw'): AuthorizationOptions<Context> => ({
+    context: { role },
+    onDeny,
+    rules: {
+      User: {
+        // Admins see every email; others only their own, checked in the resolver
+        email: (ctx) => ctx.role === 'admin' || { substitute: ['ownerId'] },
+        salary: (ctx) => ctx.role === 'admin',
+      },
+      Post: {
+        author: (ctx) => (ctx.role === 'admin' ? true : 'strip'),
+      },
+    },
+  });
+
+  const select = (query: string, options: AuthorizationOptions) =>
+    GQLPrismaSelect.fromQuery(query, { schema, authorization: options });
+
+  it('should select authorized fields', () => {
+    const result = select(`{ users { id email salary } }`, authorization('admin'));
+
+    expect(result.select).toEqual({ id: true, email: true, salary: true });
+  });
+
+  it('should throw with the response path of the field', () => {
+    try {
+      select(`{ people: users { posts { author { salary } } } }`, {
+        ...authorization('user'),
+        rules: { User: { salary: () => false } },
+      });
+      fail('Expected ForbiddenFieldError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ForbiddenFieldError);
+      expect(error).toMatchObject({
+        field: 'User.salary',
+        path: ['people', 'posts', 'author', 'salary'],
+        message: 'Not authorized to access field "User.salary" at "people.posts.author.salary"',
+      });
+    }
+  });
+
+  it('should strip denied fields silently', () => {
+    const result = select(`{ users { id posts { title author { id } } } }`, authorization('user'));
+
+    expect(result.select).toEqual({ id: true, posts: { select: { title: true } } });
+  });
+
+  it('should apply onDeny to rules returning false', () => {
+    const result = select(`{ users { id salary } }`, authorization('user', 'strip'));
+
+    expect(result.select).toEqual({ id: true });
+  });
+
+  it('should substitute dependency fields', () => {
+    const result = select(`{ me { id email } }`, authorization('user'));
+
+    expect(result.select).toEqual({ id: true, ownerId: true });
+  });
+
+  it('should pass the field to rules', () => {
+    const rule = jest.fn(() => true);
+
+    select(`{ users { posts { title } } }`, { rules: { User: { posts: rule } }, context: { id: 1 } });
+
+    expect(rule).toHaveBeenCalledWith(
+      { id: 1 },
+      { typeName: 'User', fieldName: 'posts', path: ['users', 'posts'], args: {} }
+    );
+  });
+
+  it('should authorize alias selections', () => {
+    const result = select(`{ users { recent: posts { id author { email } } } }`, authorization('user'));
+
+    expect(result.getAliases('posts').recent.select).toEqual({ id: true });
+  });
+
+  it('should apply the rules of concrete types to interface fields', () => {
+    const accountSchema = buildSchema(`
+      interface Account { id: Int email: String }
+      type User implements Account { id: Int email: String }
+      type Admin implements Account { id: Int email: String }
+      type Query { me: Account }
+    `);
+    const rules = (decision: any) => ({ rules: { User: { email: () => decision }, Admin: { email: () => true } } });
+    const query = `{ me { id email } }`;
+
+    expect(() => GQLPrismaSelect.fromQuery(query, { schema: accountSchema, authorization: rules(false) }))
+      .toThrow(ForbiddenFieldError);
+    expect(GQLPrismaSelect.fromQuery(query, { schema: accountSchema, authorization: rules({ substitute: ['id'] }) }).select)
+      .toEqual({ id: true });
+  });
+
+  it('should refuse fields of unknown type', () => {
+    expect(() => GQLPrismaSelect.fromQuery(`{ users { id email } }`, { authorization: authorization('admin') }))
+      .toThrow('Cannot authorize field "users.id" of unknown type');
+  });
+
+  it('should authorize fragment fields at their response path', () => {
+    const rules = { context: {}, rules: { User: { email: (_ctx: unknown, field: { path: string[] }) => field.path[0] === 'me' } } };
+    const result = select(`{ me { ...F } } fragment F on User { email }`, rules);
+
+    expect(result.select).toEqual({ email: true });
+  });
+
+  describe('with fragment options', () => {
+    const fragments = { analysis: { enabled: true, trackUsage: false } };
+    const deny = { ...authorization('user'), rules: { User: { salary: () => false } } };
+
+    it('should throw with the response path of fragment fields', () => {
+      expect(() => GQLPrismaSelect.fromQuery(
+        `{ me { posts { author { ...F } } } } fragment F on User { id salary }`,
+        { schema, authorization: deny, fragments }
+      )).toThrow('Not authorized to access field "User.salary" at "me.posts.author.salary"');
+    });
+
+    it('should not authorize skipped fragment spreads', () => {
+      const result = GQLPrismaSelect.fromQuery(
+        `{ me { posts { author { ...F @skip(if: true) id } } } } fragment F on User { salary }`,
+        { schema, authorization: deny, fragments }
+      );
+
+      expect(result.include).toEqual({ posts: { include: { author: { select: { id: true } } } } });
+    });
+
+    it('should strip denied fragment fields where they are spread', () => {
+      const result = GQLPrismaSelect.fromQuery(
+        `{ me { ...F } } fragment F on User { id email }`,
+        { schema, authorization: authorization('user'), fragments }
+      );
+
+      expect(result.select).toEqual({ id: true, ownerId: true });
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parse } from 'graphql';
+import { InMemoryLRUCache } from 'apollo-server-caching';
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { SelectionCache } from '../selectionCache';
+import { FragmentCache, FragmentDefinition } from '../fragments';
+import { CacheSerializer, CacheStore, FileSystemCacheStore, MemoryCacheStore } from '../cacheStore';
+
+describe('Cache stores', () => {
+  const query = parse(`query Users($take: Int) { users(take: $take) { id posts { title } } }`);
+
+  const fragment: FragmentDefinition = {
+    name: 'UserFields',
+    type: 'User',
+    selections: { id: true, email: true },
+    metadata: { size: 24, complexity: 2, dependencies: [], usageCount: 0, lastUsed: new Date(0) },
+  };
+
+  describe('CacheSerializer', () => {
+    it('should round-trip entries with dates', () => {
+      const value = { fragment, list: [1, 'a', null] };
+      const restored = CacheSerializer.deserialize(CacheSerializer.serialize(value));
+
+      expect(restored).toEqual(value);
+      expect(restored.fragment.metadata.lastUsed).toBeInstanceOf(Date);
+    });
+
+    it('should compress entries', () => {
+      const value = { select: Object.fromEntries(Array.from({ length: 50 }, (_, i) => [`field${i}`, true])) };
+      const plain = CacheSerializer.serialize(value);
+      const compressed = CacheSerializer.serialize(value, true);
+
+      expect(compressed.startsWith('gz:')).toBe(true);
+      expect(compressed.length).toBeLessThan(plain.length);
+      expect(CacheSerializer.deserialize(compressed)).toEqual(value);
+    });
+  });
+
+  describe('MemoryCacheStore', () => {
+    it('should expire entries after their ttl in seconds', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+      try {
+        const store = new MemoryCacheStore();
+        await store.set('a', '1', { ttl: 2 });
+        await store.set('b', '2');
+
+        now.mockReturnValue(2000);
+        expect(await store.get('a')).toBeUndefined();
+        expect(await store.get('b')).toBe('2');
+        expect(await store.delete('b')).toBe(true);
+      } finally {
+        now.mockRestore();
+      }
+    });
+  });
+
+  describe('FileSystemCacheStore', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'gql-prisma-select-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should store entries as files', async () => {
+      const store = new FileSystemCacheStore(path.join(directory, 'cache'));
+
+      expect(await store.get('selection:a')).toBeUndefined();
+      await store.set('selection:a', 'value', { ttl: 60 });
+      expect(await new FileSystemCacheStore(path.join(directory, 'cache')).get('selection:a')).toBe('value');
+
+      expect(await store.delete('selection:a')).toBe(true);
+      expect(await store.delete('selection:a')).toBe(false);
+      expect(await store.get('selection:a')).toBeUndefined();
+    });
+
+    it('should share selections between caches', async () => {
+      const variables = { take: 5 };
+      const first = new SelectionCache({ store: new FileSystemCacheStore(directory), compression: true });
+      const second = new SelectionCache({ store: new FileSystemCacheStore(directory) });
+
+      const computed = GQLPrismaSelect.fromQuery(query, { variables, cache: first });
+      await first.flush();
+      const key = fs.readdirSync(directory);
+      expect(key).toHaveLength(1);
+      expect(fs.readFileSync(path.join(directory, key[0]), 'utf8')).toContain('"value":"gz:');
+
+      const shared = GQLPrismaSelect.fromQuery(query, { variables, cache: second });
+      expect(second.getStats()).toMatchObject({ hits: 0, misses: 1 });
+
+      // Loaded in the background by the first lookup
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const cached = GQLPrismaSelect.fromQuery(query, { variables, cache: second });
+      expect(second.getStats()).toMatchObject({ hits: 1, misses: 1 });
+      expect(cached.select).toEqual(computed.select);
+      expect(cached.args).toEqual(shared.args);
+    });
+  });
+
+  describe('KeyValueCache stores', () => {
+    it('should load selections written by another cache', async () => {
+      const store = new InMemoryLRUCache<string>();
+      const first = new SelectionCache({ store });
+      const second = new SelectionCache({ store });
+
+      first.set('key', { select: { id: true }, args: { take: 1 } });
+      await first.flush();
+
+      expect(await second.load('key')).toEqual({ select: { id: true }, args: { take: 1 } });
+      expect(second.get('key')).toEqual({ select: { id: true }, args: { take: 1 } });
+      expect(second.getStats()).toMatchObject({ hits: 2, misses: 0, totalEntries: 1 });
+    });
+
+    it('should write selections as they were when cached', async () => {
+      const store = new MemoryCacheStore();
+      const first = new SelectionCache({ store });
+      const second = new SelectionCache({ store });
+      const selector = GQLPrismaSelect.fromQuery(query, { cache: first });
+
+      // A resolver changing its selection in the same tick
+      selector.select.secret = true;
+      await first.flush();
+
+      expect((await second.load(SelectionCache.generateKey(selector['info'])))!.select)
+        .toEqual({ id: true, posts: { select: { title: true } } });
+    });
+
+    it('should share fragments between caches', async () => {
+      const store = new MemoryCacheStore();
+      const first = new FragmentCache({ enabled: true, store, compression: true });
+      const second = new FragmentCache({ enabled: true, store });
+
+      first.set('key', fragment);
+      await first.flush();
+
+      const loaded = await second.load('key');
+      expect(loaded).toEqual(fragment);
+      expect(loaded!.metadata.lastUsed).toBeInstanceOf(Date);
+      expect(second.get('key')).toEqual(fragment);
+
+      second.invalidate('UserFields');
+      await second.flush();
+      expect(await store.get('fragment:key')).toBeUndefined();
+    });
+
+    it('should report store failures without failing lookups', async () => {
+      const error = new Error('Store unavailable');
+      const store: CacheStore = {
+        get: () => Promise.reject(error),
+        set: () => Promise.reject(error),
+        delete: () => Promise.reject(error),
+      };
+      const onStoreError = jest.fn();
+      const cache = new SelectionCache({ store, onStoreError });
+
+      cache.set('key', { args: {} });
+      await cache.flush();
+      expect(await cache.load('missing')).toBeUndefined();
+      expect(cache.get('key')).toEqual({ args: {} });
+      expect(onStoreError).toHaveBeenCalledTimes(2);
+      expect(onStoreError).toHaveBeenCalledWith(error);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { Kind } from 'graphql/language/kinds';
+import { buildSchema } from 'graphql';
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { blogDatamodel } from './helpers/datamodel';
+import {
+  createMockGraphQLInfo,
+  createFieldNode,
+  createFragmentSpreadNode,
+  createFragmentDefinition,
+} from './helpers/mockGraphQLInfo';
+
+describe('Computed fields', () => {
+  const schema = buildSchema(`
+    type User {
+      id: Int
+      firstName: String
+      lastName: String
+      fullName: String
+      avatarUrl: String
+      posts: [Post]
+      profile: Profile
+    }
+    type Profile { bio: String avatarKey: String }
+    type Post { id: Int title: String author: User slug: String }
+    type Query { user: User }
+  `);
+
+  const computedFields = {
+    User: {
+      fullName: ['firstName', 'lastName'],
+      avatarUrl: ['profile.avatarKey'],
+    },
+    Post: {
+      slug: ['id', 'title'],
+    },
+  };
+
+  const createInfo = (fieldNodes: any[], fragments?: Record<string, any>) => {
+    const info = createMockGraphQLInfo(fieldNodes, fragments);
+    (info as any).schema = schema;
+    (info as any).returnType = schema.getType('User');
+    return info;
+  };
+
+  it('should replace a computed field with its dependencies', () => {
+    const info = createInfo([createFieldNode('id'), createFieldNode('fullName')]);
+
+    const result = new GQLPrismaSelect(info, { computedFields });
+
+    expect(result.select).toEqual({ id: true, firstName: true, lastName: true });
+  });
+
+  it('should support nested dependency paths', () => {
+    const info = createInfo([
+      createFieldNode('avatarUrl'),
+      createFieldNode('profile', [createFieldNode('bio')]),
+    ]);
+
+    const result = new GQLPrismaSelect(info, { computedFields });
+
+    expect(result.include).toEqual({
+      profile: { select: { avatarKey: true, bio: true } },
+    });
+  });
+
+  it('should substitute dependencies at any nesting depth', () => {
+    const info = createInfo([
+      createFieldNode('posts', [
+        createFieldNode('slug'),
+        createFieldNode('author', [createFieldNode('fullName')]),
+      ]),
+    ]);
+
+    const result = new GQLPrismaSelect(info, { computedFields });
+
+    expect(result.include?.posts).toEqual({
+      select: {
+        id: true,
+        title: true,
+        author: { select: { firstName: true, lastName: true } },
+      },
+    });
+  });
+
+  it('should only substitute fields of the registered type', () => {
+    const info = createInfo([
+      createFieldNode('posts', [createFieldNode('fullName')]),
+    ]);
+
+    const result = new GQLPrismaSelect(info, {
+      computedFields: { User: { fullName: ['firstName', 'lastName'] } },
+    });
+
+    expect(result.include?.posts).toEqual({ select: { fullName: true } });
+  });
+
+  it('should use fragment type conditions', () => {
+    const info = createInfo(
+      [
+        createFragmentSpreadNode('UserName'),
+        {
+          kind: Kind.INLINE_FRAGMENT,
+          typeCondition: {
+            kind: Kind.NAMED_TYPE,
+            name: { kind: Kind.NAME, value: 'User' },
+          },
+          selectionSet: {
+            kind: Kind.SELECTION_SET,
+            selections: [createFieldNode('avatarUrl')],
+          },
+        },
+      ],
+      {
+        UserName: createFragmentDefinition('UserName', [createFieldNode('fullName')]),
+      }
+    );
+
+    const result = new GQLPrismaSelect(info, { computedFields });
+
+    expect(result.select).toEqual({
+      firstName: true,
+      lastName: true,
+      profile: { select: { avatarKey: true } },
+    });
+  });
+
+  it('should substitute inside preprocessed fragments', () => {
+    const info = createInfo(
+      [createFragmentSpreadNode('UserName')],
+      {
+        UserName: createFragmentDefinition('UserName', [createFieldNode('fullName')]),
+      }
+    );
+
+    const result = new GQLPrismaSelect(info, {
+      computedFields,
+      fragments: { overrides: [] },
+    });
+
+    expect(result.select).toEqual({ firstName: true, lastName: true });
+  });
+
+  it('should resolve nested types from the datamodel without a GraphQL schema', () => {
+    const info = createMockGraphQLInfo([
+      createFieldNode('posts', [
+        createFieldNode('author', [createFieldNode('fullName')]),
+      ]),
+    ]);
+
+    const result = new GQLPrismaSelect(info, {
+      computedFields,
+      datamodel: blogDatamodel,
+      model: 'User',
+    });
+
+    expect(result.select).toEqual({
+      posts: {
+        select: {
+          author: { select: { firstName: true, lastName: true } },
+        },
+      },
+    });
+  });
+});
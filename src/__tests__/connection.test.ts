@@ -0,0 +1,172 @@
+import { Kind } from 'graphql/language/kinds';
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { ConnectionHandler } from '../connection';
+import { blogDatamodel } from './helpers/datamodel';
+import { createMockGraphQLInfo, createFieldNode } from './helpers/mockGraphQLInfo';
+
+describe('Relay connections', () => {
+  const buildConnection = (extra: any[] = []) => [
+    createFieldNode('edges', [
+      createFieldNode('cursor'),
+      createFieldNode('node', [
+        createFieldNode('email'),
+        createFieldNode('posts', [createFieldNode('title')]),
+      ]),
+    ]),
+    ...extra,
+  ];
+
+  const withRootArgs = (info: any, args: Record<string, any>) => {
+    info.fieldNodes[0].arguments = Object.entries(args).map(([name, value]) => ({
+      kind: Kind.ARGUMENT,
+      name: { kind: Kind.NAME, value: name },
+      value: typeof value === 'number'
+        ? { kind: Kind.INT, value: String(value) }
+        : { kind: Kind.STRING, value },
+    }));
+    return info;
+  };
+
+  describe('ConnectionHandler.unwrap', () => {
+    it('should unwrap edges.node selections', () => {
+      const { selections, connection } = ConnectionHandler.unwrap({
+        edges: { select: { node: { select: { id: true, email: true } } } },
+      });
+
+      expect(selections).toEqual({ id: true, email: true });
+      expect(connection).toEqual({ totalCount: false, pageInfo: false, cursor: false });
+    });
+
+    it('should unwrap collection selections', () => {
+      const { selections, connection } = ConnectionHandler.unwrap({
+        collection: { select: { email: true } },
+        totalCount: true,
+      });
+
+      expect(selections).toEqual({ email: true });
+      expect(connection.totalCount).toBe(true);
+    });
+
+    it('should select the cursor field when cursors are requested', () => {
+      const { selections, connection } = ConnectionHandler.unwrap(
+        { edges: { select: { cursor: true, node: { select: { email: true } } } } },
+        { cursorField: 'slug' }
+      );
+
+      expect(selections).toEqual({ email: true, slug: true });
+      expect(connection.cursor).toBe(true);
+    });
+
+    it('should support custom node paths', () => {
+      const { selections } = ConnectionHandler.unwrap(
+        { items: { select: { email: true } } },
+        { paths: [['items']] }
+      );
+
+      expect(selections).toEqual({ email: true });
+    });
+  });
+
+  describe('ConnectionHandler.toPrismaArgs', () => {
+    it('should translate forward pagination', () => {
+      expect(ConnectionHandler.toPrismaArgs({ first: 10 })).toEqual({ take: 10 });
+      expect(ConnectionHandler.toPrismaArgs({ first: 10, after: 5 })).toEqual({
+        take: 10,
+        cursor: { id: 5 },
+        skip: 1,
+      });
+    });
+
+    it('should translate backward pagination', () => {
+      expect(ConnectionHandler.toPrismaArgs({ last: 3 })).toEqual({ take: -3 });
+      expect(ConnectionHandler.toPrismaArgs({ last: 3, before: 9 })).toEqual({
+        take: -3,
+        cursor: { id: 9 },
+        skip: 1,
+      });
+    });
+
+    it('should decode cursors into the cursor field', () => {
+      const decodeCursor = (cursor: string) =>
+        Number(Buffer.from(cursor, 'base64').toString('utf8'));
+
+      expect(
+        ConnectionHandler.toPrismaArgs(
+          { first: 2, after: Buffer.from('42').toString('base64') },
+          { cursorField: 'position', decodeCursor }
+        )
+      ).toEqual({ take: 2, cursor: { position: 42 }, skip: 1 });
+    });
+  });
+
+  describe('GQLPrismaSelect connection mode', () => {
+    it('should select the model through edges.node', () => {
+      const info = createMockGraphQLInfo(buildConnection());
+
+      const result = new GQLPrismaSelect(info, { connection: true });
+
+      expect(result.select).toEqual({
+        id: true,
+        email: true,
+        posts: { select: { title: true } },
+      });
+    });
+
+    it('should report requested totalCount and pageInfo', () => {
+      const info = createMockGraphQLInfo(buildConnection([
+        createFieldNode('totalCount'),
+        createFieldNode('pageInfo', [createFieldNode('hasNextPage')]),
+      ]));
+
+      const result = new GQLPrismaSelect(info, { connection: true });
+
+      expect(result.connection).toEqual({ totalCount: true, pageInfo: true, cursor: true });
+    });
+
+    it('should translate root pagination arguments', () => {
+      const info = withRootArgs(createMockGraphQLInfo(buildConnection()), {
+        first: 20,
+        after: '15',
+      });
+
+      const result = new GQLPrismaSelect(info, {
+        connection: { decodeCursor: Number },
+      });
+
+      expect(result.args).toEqual({ take: 20, cursor: { id: 15 }, skip: 1 });
+    });
+
+    it('should apply get paths relative to the node', () => {
+      const info = createMockGraphQLInfo(buildConnection());
+
+      const result = new GQLPrismaSelect(info, { connection: true, get: 'posts' });
+
+      expect(result.select).toEqual({ title: true });
+    });
+
+    it('should build the node selection against the datamodel', () => {
+      const info = createMockGraphQLInfo(buildConnection([createFieldNode('totalCount')]));
+
+      const result = new GQLPrismaSelect(info, {
+        connection: true,
+        datamodel: blogDatamodel,
+        model: 'User',
+      });
+
+      expect(result.select).toEqual({
+        id: true,
+        email: true,
+        posts: { select: { title: true } },
+      });
+    });
+
+    it('should leave selections untouched without connection mode', () => {
+      const info = createMockGraphQLInfo(buildConnection());
+
+      const result = new GQLPrismaSelect(info);
+
+      expect(result.connection).toBeUndefined();
+      expect(result.include?.edges).toBeDefined();
+    });
+  });
+});
@@ -11,6 +11,10 @@ describe('Constants', () => {
       expect(Array.isArray(DEFAULT_PATHS.Pagination)).toBe(true);
       expect(DEFAULT_PATHS.Pagination).toEqual(['collection']);
     });
+
+    it('should have Connection path', () => {
+      expect(DEFAULT_PATHS.Connection).toEqual(['edges', 'node']);
+    });
   });
 });
 
@@ -0,0 +1,147 @@
+import { buildSchema } from 'graphql';
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { blogDatamodel } from './helpers/datamodel';
+import { createMockGraphQLInfo, createFieldNode } from './helpers/mockGraphQLInfo';
+
+describe('Count fields', () => {
+  const schema = buildSchema(`
+    input PostWhere { published: Boolean }
+    type UserCount { posts(where: PostWhere): Int comments: Int }
+    type User {
+      id: Int
+      email: String
+      postsCount(where: PostWhere): Int
+      draftsCount: Int
+      commentsCount: Int
+      posts: [Post]
+      _count: UserCount
+    }
+    type Post { id: Int title: String commentsCount: Int }
+    type Query { user: User }
+  `);
+
+  const countFields = {
+    User: {
+      postsCount: 'posts',
+      commentsCount: 'comments',
+      draftsCount: { relation: 'posts', where: { published: false } },
+    },
+    Post: {
+      commentsCount: 'comments',
+    },
+  };
+
+  const createInfo = (fieldNodes: any[]) => {
+    const info = createMockGraphQLInfo(fieldNodes);
+    (info as any).schema = schema;
+    (info as any).returnType = schema.getType('User');
+    return info;
+  };
+
+  it('should select count fields as relation counts', () => {
+    const info = createInfo([
+      createFieldNode('id'),
+      createFieldNode('postsCount'),
+      createFieldNode('commentsCount'),
+    ]);
+
+    const result = new GQLPrismaSelect(info, { countFields });
+
+    expect(result.select).toEqual({
+      id: true,
+      _count: { select: { posts: true, comments: true } },
+    });
+  });
+
+  it('should filter counts by the where argument', () => {
+    const info = createInfo([
+      createFieldNode('postsCount', [], [{ name: 'where', value: { published: true } }]),
+    ]);
+
+    const result = new GQLPrismaSelect(info, { countFields });
+
+    // Prisma accepts `_count` in include as well
+    expect(result.include).toEqual({
+      _count: { select: { posts: { where: { published: true } } } },
+    });
+  });
+
+  it('should apply static filters', () => {
+    const info = createInfo([createFieldNode('id'), createFieldNode('draftsCount')]);
+
+    const result = new GQLPrismaSelect(info, { countFields });
+
+    expect(result.select).toEqual({
+      id: true,
+      _count: { select: { posts: { where: { published: false } } } },
+    });
+  });
+
+  it('should map filter arguments through argument mapping', () => {
+    const info = createInfo([
+      createFieldNode('postsCount', [], [{ name: 'filter', value: { published: true } }]),
+    ]);
+
+    const result = new GQLPrismaSelect(info, {
+      countFields,
+      argumentMapping: { fields: { 'User.postsCount': { filter: 'where' } } },
+    });
+
+    expect(result.include).toEqual({
+      _count: { select: { posts: { where: { published: true } } } },
+    });
+  });
+
+  it('should select count fields of nested relations', () => {
+    const info = createInfo([
+      createFieldNode('posts', [createFieldNode('title'), createFieldNode('commentsCount')]),
+    ]);
+
+    const result = new GQLPrismaSelect(info, { countFields });
+
+    expect(result.include).toEqual({
+      posts: {
+        select: { title: true, _count: { select: { comments: true } } },
+      },
+    });
+  });
+
+  it('should merge count fields with a requested _count selection', () => {
+    const info = createInfo([
+      createFieldNode('postsCount'),
+      createFieldNode('_count', [
+        createFieldNode('comments'),
+        createFieldNode('posts', [], [{ name: 'where', value: { published: true } }]),
+      ]),
+    ]);
+
+    const result = new GQLPrismaSelect(info, { countFields });
+
+    expect(result.include).toEqual({
+      _count: {
+        select: { comments: true, posts: { where: { published: true } } },
+      },
+    });
+  });
+
+  it('should keep only counts of model relations with a datamodel', () => {
+    const info = createInfo([
+      createFieldNode('id'),
+      createFieldNode('postsCount'),
+      createFieldNode('commentsCount'),
+    ]);
+
+    const result = new GQLPrismaSelect(info, { countFields, datamodel: blogDatamodel });
+
+    // User has no comments relation in the Prisma schema
+    expect(result.select).toEqual({ id: true, _count: { select: { posts: true } } });
+  });
+
+  it('should ignore count fields of other types', () => {
+    const info = createInfo([createFieldNode('postsCount')]);
+
+    const result = new GQLPrismaSelect(info, { countFields: { Post: { postsCount: 'posts' } } });
+
+    expect(result.select).toEqual({ postsCount: true });
+  });
+});
@@ -0,0 +1,289 @@
+import { PrismaDataLoader, PrismaDelegate, PrismaRelationLoader } from '../dataLoader';
+import { DocumentResolveInfo } from '../document';
+
+describe('PrismaDataLoader', () => {
+  const users = [
+    { id: 1, email: 'a@example.com' },
+    { id: 2, email: 'b@example.com' },
+    { id: 3, email: 'c@example.com' },
+  ];
+
+  const createDelegate = () => {
+    const findMany = jest.fn(async (args: Record<string, any>) => {
+      const keys: number[] = args.where.id?.in ?? args.where.AND?.[0]?.id?.in;
+      // Rows come back in database order, not key order
+      return users.filter((user) => keys.includes(user.id)).reverse();
+    });
+    return { delegate: { findMany } as PrismaDelegate, findMany };
+  };
+
+  const info = (query: string, path = 'posts.author') => DocumentResolveInfo.build(query, { path });
+
+  it('should batch the loads of a tick into one findMany', async () => {
+    const { delegate, findMany } = createDelegate();
+    const loader = new PrismaDataLoader(delegate);
+    const author = info(`{ posts { author { id email } } }`);
+
+    const results = await Promise.all([
+      loader.load(2, author),
+      loader.load(4, author),
+      loader.load(1, author),
+      loader.load(2, author),
+    ]);
+
+    expect(findMany).toHaveBeenCalledTimes(1);
+    expect(findMany).toHaveBeenCalledWith({
+      where: { id: { in: [2, 4, 1] } },
+      select: { id: true, email: true },
+    });
+    expect(results).toEqual([users[1], null, users[0], users[1]]);
+  });
+
+  it('should return rows in the order of the keys with loadMany', async () => {
+    const { delegate, findMany } = createDelegate();
+    const loader = new PrismaDataLoader(delegate);
+
+    expect(await loader.loadMany([3, 1, 5])).toEqual([users[2], users[0], null]);
+    expect(findMany).toHaveBeenCalledWith({ where: { id: { in: [3, 1, 5] } } });
+  });
+
+  it('should merge the selections of all loads', async () => {
+    const { delegate, findMany } = createDelegate();
+    const loader = new PrismaDataLoader(delegate);
+
+    await Promise.all([
+      loader.load(1, info(`{ posts { author { email } } }`)),
+      loader.load(2, info(`{ posts { author { id posts(take: 5) { title } } } }`)),
+      loader.load(3, info(`{ posts { author { posts(take: 5) { id } } } }`)),
+    ]);
+
+    expect(findMany).toHaveBeenCalledTimes(1);
+    expect(findMany.mock.calls[0][0]).toEqual({
+      where: { id: { in: [1, 2, 3] } },
+      include: { posts: { take: 5, select: { title: true, id: true } } },
+    });
+  });
+
+  it('should select the key and keep selects without relations', async () => {
+    const { delegate, findMany } = createDelegate();
+    const loader = new PrismaDataLoader(delegate);
+
+    await Promise.all([
+      loader.load(1, info(`{ posts { author { email } } }`)),
+      loader.load(2, info(`{ posts { author { email profile { bio } } } }`)),
+    ]);
+
+    expect(findMany.mock.calls[0][0]).toEqual({
+      where: { id: { in: [1, 2] } },
+      select: { email: true, profile: { select: { bio: true } }, id: true },
+    });
+  });
+
+  it('should query relations requested with different arguments separately', async () => {
+    const { delegate, findMany } = createDelegate();
+    const loader = new PrismaDataLoader(delegate);
+
+    const results = await Promise.all([
+      loader.load(1, info(`{ posts { author { posts(take: 5) { id } } } }`)),
+      loader.load(2, info(`{ posts { author { posts(take: 10) { id } } } }`)),
+      loader.load(3, info(`{ posts { author { posts(take: 5) { id } } } }`)),
+    ]);
+
+    expect(findMany).toHaveBeenCalledTimes(2);
+    expect(findMany.mock.calls.map(([args]) => args.where.id.in)).toEqual([[1, 3], [2]]);
+    expect(results).toEqual([users[0], users[1], users[2]]);
+  });
+
+  it('should batch loads with different filters separately', async () => {
+    const { delegate, findMany } = createDelegate();
+    const loader = new PrismaDataLoader(delegate);
+
+    await Promise.all([
+      loader.load(1, info(`{ posts { author(where: { active: true }) { id } } }`)),
+      loader.load(2, info(`{ posts { author { id } } }`)),
+    ]);
+
+    expect(findMany).toHaveBeenCalledTimes(2);
+    expect(findMany.mock.calls[0][0].where).toEqual({ id: { in: [1] }, active: true });
+    expect(findMany.mock.calls[1][0].where).toEqual({ id: { in: [2] } });
+  });
+
+  it('should split batches larger than maxBatchSize', async () => {
+    const { delegate, findMany } = createDelegate();
+    const loader = new PrismaDataLoader(delegate, { maxBatchSize: 2 });
+
+    expect(await loader.loadMany([1, 2, 3])).toEqual(users);
+    expect(findMany.mock.calls.map(([args]) => args.where.id.in)).toEqual([[1, 2], [3]]);
+  });
+
+  it('should load by another unique key', async () => {
+    const findMany = jest.fn(async () => [users[0]]);
+    const loader = new PrismaDataLoader({ findMany }, { key: 'email' });
+
+    // The key is selected to map rows back, but not returned when the load didn't request it
+    expect(await loader.load('a@example.com', info(`{ posts { author { id } } }`))).toEqual({ id: 1 });
+    expect(findMany).toHaveBeenCalledWith({
+      where: { email: { in: ['a@example.com'] } },
+      select: { id: true, email: true },
+    });
+  });
+
+  it('should reject every load of a failed batch', async () => {
+    const error = new Error('Connection lost');
+    const loader = new PrismaDataLoader({ findMany: () => Promise.reject(error) });
+
+    await expect(Promise.all([loader.load(1), loader.load(2)])).rejects.toBe(error);
+    await expect(loader.load(3)).rejects.toBe(error);
+  });
+
+  it('should reject loads whose selection cannot be built', async () => {
+    const { delegate, findMany } = createDelegate();
+    const loader = new PrismaDataLoader(delegate);
+
+    let load: Promise<unknown> | undefined;
+    expect(() => { load = loader.load(1, { fieldNodes: [] } as any); }).not.toThrow();
+    await expect(load).rejects.toThrow();
+    await expect(loader.loadMany([1, 2], { fieldNodes: [] } as any)).rejects.toThrow();
+    expect(findMany).not.toHaveBeenCalled();
+  });
+
+  describe('mergeSelections', () => {
+    it('should cover selected scalars with includes', () => {
+      expect(PrismaDataLoader.mergeSelections(
+        { select: { id: true, posts: { select: { id: true } } } },
+        { include: { profile: true } }
+      )).toEqual({ include: { profile: true, posts: { select: { id: true } } } });
+
+      expect(PrismaDataLoader.mergeSelections({ select: { id: true } }, {})).toEqual({});
+    });
+
+    it('should merge relations selected with true', () => {
+      expect(PrismaDataLoader.mergeSelections(
+        { select: { profile: true } },
+        { select: { profile: { select: { bio: true } } } }
+      )).toEqual({ select: { profile: true } });
+
+      expect(PrismaDataLoader.mergeSelections(
+        { select: { posts: true } },
+        { select: { posts: { where: { published: true }, select: { id: true } } } }
+      )).toBeNull();
+    });
+  });
+
+  describe('PrismaRelationLoader', () => {
+    const comments = [
+      { id: 1, postId: 10, authorId: 1, body: 'a' },
+      { id: 2, postId: 20, authorId: 1, body: 'b' },
+      { id: 3, postId: 10, authorId: 2, body: 'c' },
+      { id: 4, postId: 10, authorId: 1, body: 'd' },
+      { id: 5, postId: 20, authorId: 2, body: 'e' },
+    ];
+
+    const createCommentDelegate = () => {
+      const findMany = jest.fn(async (args: Record<string, any>) => {
+        const parents: number[] = args.where.postId?.in ?? args.where.AND?.[0]?.postId?.in;
+        return comments.filter((comment) => parents.includes(comment.postId));
+      });
+      return { delegate: { findMany } as PrismaDelegate, findMany };
+    };
+
+    const ids = (rows: { id: number }[][]) => rows.map((group) => group.map((row) => row.id));
+
+    it('should load the children of all parents with one findMany', async () => {
+      const { delegate, findMany } = createCommentDelegate();
+      const loader = new PrismaRelationLoader(delegate, { foreignKey: 'postId' });
+      const field = info(`{ posts { comments(orderBy: { id: asc }, where: { body: { not: "x" } }) { id body } } }`, 'posts.comments');
+
+      const results = await Promise.all([loader.load(20, field), loader.load(10, field), loader.load(30, field)]);
+
+      expect(findMany).toHaveBeenCalledTimes(1);
+      expect(findMany).toHaveBeenCalledWith({
+        orderBy: { id: 'asc' },
+        where: { postId: { in: [20, 10, 30] }, body: { not: 'x' } },
+        select: { id: true, body: true, postId: true },
+      });
+      expect(ids(results)).toEqual([[2, 5], [1, 3, 4], []]);
+    });
+
+    it('should apply take and skip to each parent', async () => {
+      const { delegate, findMany } = createCommentDelegate();
+      const loader = new PrismaRelationLoader(delegate, { foreignKey: 'postId' });
+      const field = info(`{ posts { comments(take: 1, skip: 1) { id } } }`, 'posts.comments');
+
+      expect(ids(await loader.loadMany([10, 20], field))).toEqual([[3], [5]]);
+      expect(findMany.mock.calls[0][0]).not.toHaveProperty('take');
+      expect(findMany.mock.calls[0][0]).not.toHaveProperty('skip');
+    });
+
+    it('should page each parent from its cursor', async () => {
+      const { delegate, findMany } = createCommentDelegate();
+      const loader = new PrismaRelationLoader(delegate, { foreignKey: 'postId' });
+      const field = info(`{ posts { comments(cursor: { id: 3 }, take: 2) { body } } }`, 'posts.comments');
+
+      // The cursor only belongs to the rows of one parent
+      const results = await loader.loadMany([10, 20], field);
+      expect(results.map((rows) => rows.map((row) => row.body))).toEqual([['c', 'd'], []]);
+      expect(findMany.mock.calls[0][0].select).toEqual({ body: true, postId: true, id: true });
+      expect(results[0][0]).not.toHaveProperty('id');
+      expect(results[0][0]).not.toHaveProperty('postId');
+    });
+
+    it('should only return the fields each load selected', async () => {
+      const { delegate } = createCommentDelegate();
+      const loader = new PrismaRelationLoader(delegate, { foreignKey: 'postId' });
+
+      const [bodies, keyed, all] = await Promise.all([
+        loader.load(20, info(`{ posts { comments(distinct: [authorId]) { body } } }`, 'posts.comments')),
+        loader.load(20, info(`{ posts { comments(distinct: [authorId]) { postId body } } }`, 'posts.comments')),
+        loader.load(20, info(`{ posts { comments(distinct: [authorId]) { author { id } } } }`, 'posts.comments')),
+      ]);
+
+      // The delegate returns whole rows, so only the added fields are removed
+      expect(bodies).toEqual([{ id: 2, body: 'b' }, { id: 5, body: 'e' }]);
+      expect(keyed).toEqual([{ id: 2, postId: 20, body: 'b' }, { id: 5, postId: 20, body: 'e' }]);
+      // Includes return every scalar anyway
+      expect(all).toEqual([comments[1], comments[4]]);
+    });
+
+    it('should keep nested relation arguments in the selection', async () => {
+      const { delegate, findMany } = createCommentDelegate();
+      const loader = new PrismaRelationLoader(delegate, { foreignKey: 'postId' });
+
+      await loader.load(10, info(`{ posts { comments { id author { posts(take: 3) { id } } } } }`, 'posts.comments'));
+
+      expect(findMany.mock.calls[0][0].select).toEqual({
+        id: true,
+        author: { include: { posts: { take: 3, select: { id: true } } } },
+        postId: true,
+      });
+    });
+
+    it('should batch fields with different arguments separately', async () => {
+      const { delegate, findMany } = createCommentDelegate();
+      const loader = new PrismaRelationLoader(delegate, { foreignKey: 'postId' });
+
+      const [first, all] = await Promise.all([
+        loader.load(10, info(`{ posts { comments(take: 1) { id } } }`, 'posts.comments')),
+        loader.load(10, info(`{ posts { comments { id } } }`, 'posts.comments')),
+      ]);
+
+      expect(findMany).toHaveBeenCalledTimes(2);
+      expect(first.map((row) => row.id)).toEqual([1]);
+      expect(all.map((row) => row.id)).toEqual([1, 3, 4]);
+    });
+
+    describe('paginate', () => {
+      const rows = [1, 2, 3, 4, 5].map((id) => ({ id, group: id % 2 }));
+
+      it('should page backwards with a negative take', () => {
+        expect(PrismaRelationLoader.paginate(rows, { take: -2 }).map((row) => row.id)).toEqual([4, 5]);
+        expect(PrismaRelationLoader.paginate(rows, { take: -2, skip: 1, cursor: { id: 4 } }).map((row) => row.id))
+          .toEqual([2, 3]);
+      });
+
+      it('should keep the first row of each distinct value', () => {
+        expect(PrismaRelationLoader.paginate(rows, { distinct: ['group'] }).map((row) => row.id)).toEqual([1, 2]);
+      });
+    });
+  });
+});
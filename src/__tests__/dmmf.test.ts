@@ -0,0 +1,163 @@
+import { buildSchema, GraphQLList, GraphQLNonNull } from 'graphql';
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { PrismaDatamodel } from '../dmmf';
+import { blogDatamodel } from './helpers/datamodel';
+import { createMockGraphQLInfo, createFieldNode } from './helpers/mockGraphQLInfo';
+
+describe('Prisma DMMF integration', () => {
+  describe('PrismaDatamodel', () => {
+    const datamodel = new PrismaDatamodel(blogDatamodel);
+
+    it('should index models and fields', () => {
+      expect(datamodel.hasModel('User')).toBe(true);
+      expect(datamodel.hasModel('Unknown')).toBe(false);
+      expect(datamodel.getModel('Post')?.name).toBe('Post');
+      expect(datamodel.getField('User', 'email')?.kind).toBe('scalar');
+      expect(datamodel.getField('User', 'fullName')).toBeUndefined();
+    });
+
+    it('should detect relations and their target models', () => {
+      expect(datamodel.isRelation('User', 'posts')).toBe(true);
+      expect(datamodel.isRelation('User', 'email')).toBe(false);
+      expect(datamodel.getRelationModel('User', 'posts')).toBe('Post');
+      expect(datamodel.getRelationModel('User', 'email')).toBeUndefined();
+    });
+
+    it('should resolve models along a relation path', () => {
+      expect(datamodel.resolvePath('User', [])).toBe('User');
+      expect(datamodel.resolvePath('User', ['posts', 'comments'])).toBe('Comment');
+      expect(datamodel.resolvePath('User', ['posts', 'title'])).toBeUndefined();
+    });
+
+    it('should build a select tree and skip unknown fields', () => {
+      const select = datamodel.buildSelect('User', {
+        id: true,
+        fullName: true,
+        posts: {
+          include: {
+            author: { select: { email: true, avatarUrl: true } },
+          },
+          take: 5,
+        },
+      });
+
+      expect(select).toEqual({
+        id: true,
+        posts: {
+          select: { author: { select: { email: true } } },
+          take: 5,
+        },
+      });
+    });
+
+    it('should select a relation as true when none of its fields are known', () => {
+      const select = datamodel.buildSelect('User', {
+        profile: { select: { avatarUrl: true } },
+        posts: { select: { excerpt: true }, take: 2 },
+      });
+
+      expect(select).toEqual({ profile: true, posts: { take: 2 } });
+    });
+
+    it('should keep only relations inside _count', () => {
+      const select = datamodel.buildSelect('User', {
+        _count: { select: { posts: true, followers: true } },
+      });
+
+      expect(select).toEqual({ _count: { select: { posts: true } } });
+    });
+  });
+
+  describe('GQLPrismaSelect with datamodel', () => {
+    const schema = buildSchema(`
+      type User { id: Int email: String fullName: String posts: [Post] }
+      type Post { id: Int title: String }
+      type Query { users: [User!]! }
+    `);
+
+    it('should always emit select for relation-only selections', () => {
+      const info = createMockGraphQLInfo([
+        createFieldNode('posts', [createFieldNode('title')]),
+      ]);
+
+      const result = new GQLPrismaSelect(info, {
+        datamodel: blogDatamodel,
+        model: 'User',
+      });
+
+      expect(result.include).toBeUndefined();
+      expect(result.select).toEqual({ posts: { select: { title: true } } });
+    });
+
+    it('should skip fields with no Prisma counterpart', () => {
+      const info = createMockGraphQLInfo([
+        createFieldNode('id'),
+        createFieldNode('fullName'),
+      ]);
+
+      const result = new GQLPrismaSelect(info, {
+        datamodel: blogDatamodel,
+        model: 'User',
+      });
+
+      expect(result.select).toEqual({ id: true });
+    });
+
+    it('should infer the model from the GraphQL return type', () => {
+      const info = createMockGraphQLInfo([
+        createFieldNode('email'),
+        createFieldNode('fullName'),
+      ]);
+      (info as any).returnType = new GraphQLNonNull(
+        new GraphQLList(new GraphQLNonNull(schema.getType('User') as any))
+      );
+
+      const result = new GQLPrismaSelect(info, { datamodel: blogDatamodel });
+
+      expect(result.select).toEqual({ email: true });
+    });
+
+    it('should resolve the model of a get path', () => {
+      const info = createMockGraphQLInfo([
+        createFieldNode('posts', [
+          createFieldNode('title'),
+          createFieldNode('excerpt'),
+          createFieldNode('author', [createFieldNode('email')]),
+        ]),
+      ]);
+
+      const result = new GQLPrismaSelect(info, {
+        datamodel: blogDatamodel,
+        model: 'User',
+        get: 'posts',
+      });
+
+      expect(result.select).toEqual({
+        title: true,
+        author: { select: { email: true } },
+      });
+    });
+
+    it('should fall back to the heuristic when the model is unknown', () => {
+      const info = createMockGraphQLInfo([
+        createFieldNode('posts', [createFieldNode('title')]),
+      ]);
+
+      const result = new GQLPrismaSelect(info, { datamodel: blogDatamodel });
+
+      expect(result.include).toEqual({ posts: { select: { title: true } } });
+    });
+
+    it('should build the select tree after field transforms', () => {
+      const info = createMockGraphQLInfo([createFieldNode('mail')]);
+
+      const result = new GQLPrismaSelect(info, {
+        datamodel: blogDatamodel,
+        model: 'User',
+        transforms: { fieldTransforms: { mail: 'email' } },
+      });
+
+      expect(result.select).toEqual({ email: true });
+    });
+  });
+});
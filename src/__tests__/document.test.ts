@@ -0,0 +1,122 @@
+import { buildSchema, parse } from 'graphql';
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { DocumentResolveInfo } from '../document';
+import { GQLPrismaSelectError } from '../errors';
+import { blogDatamodel } from './helpers/datamodel';
+
+describe('Selections from documents', () => {
+  const schema = buildSchema(`
+    type User { id: Int email: String fullName: String posts(take: Int): [Post] }
+    type Post { id: Int title: String author: User }
+    type Query { user(id: Int): User users: [User] }
+  `);
+
+  it('should build selections for the first root field', () => {
+    const result = GQLPrismaSelect.fromQuery(`
+      query {
+        users(take: 10) {
+          id
+          posts(take: 5) { title }
+        }
+      }
+    `);
+
+    expect(result.select).toEqual({
+      id: true,
+      posts: { select: { title: true }, take: 5 },
+    });
+    expect(result.args).toEqual({ take: 10 });
+  });
+
+  it('should accept a DocumentNode', () => {
+    const result = GQLPrismaSelect.fromQuery(parse('{ user { id email } }'));
+
+    expect(result.select).toEqual({ id: true, email: true });
+  });
+
+  it('should select a nested field by path', () => {
+    const result = GQLPrismaSelect.fromQuery(
+      `{ user(id: 1) { id posts(take: 3) { title author { email } } } }`,
+      { path: 'user.posts' }
+    );
+
+    expect(result.select).toEqual({
+      title: true,
+      author: { select: { email: true } },
+    });
+    expect(result.args).toEqual({ take: 3 });
+  });
+
+  it('should resolve paths through aliases and fragments', () => {
+    const result = GQLPrismaSelect.fromQuery(
+      `
+        { me: user(id: 1) { ...UserPosts } }
+        fragment UserPosts on User { recent: posts(take: 2) { id } }
+      `,
+      { path: ['me', 'recent'] }
+    );
+
+    expect(result.select).toEqual({ id: true });
+    expect(result.args).toEqual({ take: 2 });
+  });
+
+  it('should pick the operation by name and apply variables', () => {
+    const query = `
+      query Users($limit: Int = 20) { users(take: $limit) { id } }
+      query User($withEmail: Boolean!) { user { id email @include(if: $withEmail) } }
+    `;
+
+    const users = GQLPrismaSelect.fromQuery(query, { operationName: 'Users' });
+    const user = GQLPrismaSelect.fromQuery(query, {
+      operationName: 'User',
+      variables: { withEmail: false },
+    });
+
+    expect(users.args).toEqual({ take: 20 });
+    expect(user.select).toEqual({ id: true });
+  });
+
+  it('should pass selector options through', () => {
+    const result = GQLPrismaSelect.fromQuery(
+      `{ user { id fullName posts { title } } }`,
+      {
+        schema,
+        datamodel: blogDatamodel,
+        computedFields: { User: { fullName: ['firstName', 'lastName'] } },
+      }
+    );
+
+    expect(result.select).toEqual({
+      id: true,
+      firstName: true,
+      lastName: true,
+      posts: { select: { title: true } },
+    });
+  });
+
+  it('should resolve types along the path with a schema', () => {
+    const info = DocumentResolveInfo.build(`{ user { posts { author { id } } } }`, {
+      schema,
+      path: 'user.posts.author',
+    });
+
+    expect(info.fieldName).toBe('author');
+    expect(info.parentType.name).toBe('Post');
+    expect(String(info.returnType)).toBe('User');
+    expect(info.path).toEqual({
+      key: 'author',
+      typename: 'Post',
+      prev: { key: 'posts', typename: 'User', prev: { key: 'user', typename: 'Query', prev: undefined } },
+    });
+  });
+
+  it('should throw for unknown operations and fields', () => {
+    const query = `query A { user { id } } query B { users { id } }`;
+
+    expect(() => GQLPrismaSelect.fromQuery(query)).toThrow(GQLPrismaSelectError);
+    expect(() => GQLPrismaSelect.fromQuery(query, { operationName: 'C' }))
+      .toThrow('Unknown operation "C"');
+    expect(() => GQLPrismaSelect.fromQuery(query, { operationName: 'A', path: 'user.posts' }))
+      .toThrow('Field "user.posts" was not found in the operation');
+  });
+});
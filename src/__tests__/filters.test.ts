@@ -0,0 +1,149 @@
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { QueryFilters, FilterPolicy } from '../filters';
+import { PrismaDatamodel } from '../dmmf';
+import { GQLPrismaSelectError } from '../errors';
+import { blogDatamodel } from './helpers/datamodel';
+
+describe('Filter policies', () => {
+  const policy: FilterPolicy = {
+    tenantId: 't1',
+    models: {
+      User: { tenantKey: 'tenantId', softDelete: 'deletedAt' },
+      Post: { tenantKey: 'tenantId', softDelete: 'deletedAt' },
+    },
+  };
+
+  const select = (query: string, filters: FilterPolicy = policy) =>
+    GQLPrismaSelect.fromQuery(query, { datamodel: blogDatamodel, model: 'User', filters });
+
+  it('should filter the root where', () => {
+    const result = select(`{ users { id } }`);
+
+    expect(result.args).toEqual({ where: { tenantId: 't1', deletedAt: null } });
+  });
+
+  it('should filter nested to-many relations', () => {
+    const result = select(`{ users { id posts { title author { email posts { id } } } } }`);
+
+    expect(result.select).toEqual({
+      id: true,
+      posts: {
+        select: {
+          title: true,
+          // To-one relations cannot be filtered
+          author: {
+            select: {
+              email: true,
+              posts: { select: { id: true }, where: { tenantId: 't1', deletedAt: null } },
+            },
+          },
+        },
+        where: { tenantId: 't1', deletedAt: null },
+      },
+    });
+  });
+
+  it('should filter alias selections', () => {
+    const result = select(`{ users { recent: posts(take: 5) { title comments { body } } } }`);
+
+    expect(result.getAliases('posts').recent).toEqual({
+      alias: 'recent',
+      field: 'posts',
+      args: { take: 5, where: { tenantId: 't1', deletedAt: null } },
+      select: { title: true, comments: { select: { body: true } } },
+      include: undefined,
+    });
+  });
+
+  it('should filter relations selected without sub-fields', () => {
+    const info = GQLPrismaSelect.fromQuery(`{ users { posts(take: 2) } }`, {
+      datamodel: blogDatamodel,
+      model: 'User',
+      filters: policy,
+    });
+
+    expect(info.select).toEqual({
+      posts: { take: 2, where: { tenantId: 't1', deletedAt: null } },
+    });
+  });
+
+  it('should keep client filters from overriding injected filters', () => {
+    const result = select(`{
+      users(where: { tenantId: "t2", email: { contains: "a" } }) {
+        posts(where: { deletedAt: { not: null } }) { id }
+      }
+    }`);
+
+    expect(result.args.where).toEqual({
+      tenantId: 't2',
+      email: { contains: 'a' },
+      deletedAt: null,
+      AND: [{ tenantId: 't1' }],
+    });
+    expect(result.select).toEqual({
+      posts: {
+        select: { id: true },
+        where: { deletedAt: { not: null }, tenantId: 't1', AND: [{ deletedAt: null }] },
+      },
+    });
+  });
+
+  it('should drop client filters with the replace strategy', () => {
+    const result = select(
+      `{ users(where: { email: "a" }) { posts(where: { title: "b" }) { id } } }`,
+      { ...policy, merge: 'replace' }
+    );
+
+    expect(result.args.where).toEqual({ tenantId: 't1', deletedAt: null });
+    expect((result.select as any).posts.where).toEqual({ tenantId: 't1', deletedAt: null });
+  });
+
+  it('should filter relation counts', () => {
+    const result = select(`{ users { _count { posts } } }`);
+
+    expect(result.select).toEqual({
+      _count: { select: { posts: { where: { tenantId: 't1', deletedAt: null } } } },
+    });
+  });
+
+  it('should include deleted rows when asked to', () => {
+    const result = select(`{ users { posts { id } } }`, { ...policy, includeDeleted: true });
+
+    expect(result.args.where).toEqual({ tenantId: 't1' });
+    expect((result.select as any).posts.where).toEqual({ tenantId: 't1' });
+  });
+
+  it('should leave models without a policy untouched', () => {
+    const result = select(`{ users { posts { comments { body } } } }`);
+
+    expect((result.select as any).posts.select.comments).toEqual({ select: { body: true } });
+  });
+
+  it('should require a tenant id for tenant-scoped models', () => {
+    expect(() => select(`{ users { id } }`, { ...policy, tenantId: undefined }))
+      .toThrow('No tenant id given for tenant-scoped model "User"');
+  });
+
+  it('should require a Prisma model', () => {
+    expect(() => GQLPrismaSelect.fromQuery(`{ users { id } }`, { filters: policy }))
+      .toThrow(GQLPrismaSelectError);
+  });
+
+  describe('QueryFilters', () => {
+    const datamodel = new PrismaDatamodel(blogDatamodel);
+
+    it('should apply filters to a select tree', () => {
+      expect(
+        QueryFilters.applyToSelect({ posts: true, email: true }, 'User', datamodel, policy)
+      ).toEqual({
+        posts: { where: { tenantId: 't1', deletedAt: null } },
+        email: true,
+      });
+    });
+
+    it('should return the client filter for models without a policy', () => {
+      expect(QueryFilters.applyToWhere({ id: 1 }, 'Comment', policy)).toEqual({ id: 1 });
+      expect(QueryFilters.getFilter('Comment', policy)).toBeUndefined();
+    });
+  });
+});
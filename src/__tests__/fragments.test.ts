@@ -10,6 +10,7 @@ import {
   DynamicFragment,
   CacheConfig
 } from '../fragments';
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
 
 describe('Phase 7: Advanced Fragment Handling', () => {
   beforeEach(() => {
@@ -158,6 +159,65 @@ describe('Phase 7: Advanced Fragment Handling', () => {
         expect(stats.leastUsed).toContain('Frag2');
       });
     });
+
+    describe('Scoped Registries', () => {
+      const fragment = (name: string): FragmentDefinition => ({
+        name,
+        type: 'User',
+        selections: { id: true },
+        metadata: { size: 10, complexity: 1, dependencies: [], usageCount: 0, lastUsed: new Date(0) }
+      });
+
+      it('should keep fragments and stats per registry', () => {
+        const requestA = new FragmentRegistry();
+        const requestB = new FragmentRegistry();
+
+        requestA.register(fragment('UserFields'));
+        requestA.get('UserFields');
+
+        expect(requestA.get('UserFields')?.metadata.usageCount).toBe(2);
+        expect(requestB.has('UserFields')).toBe(false);
+        expect(FragmentRegistry.has('UserFields')).toBe(false);
+        expect(FragmentRegistry.global.size()).toBe(0);
+      });
+
+      it('should merge usage of several registries', () => {
+        const requestA = new FragmentRegistry();
+        const requestB = new FragmentRegistry();
+        requestA.register(fragment('UserFields'));
+        requestA.recordUsage('UserFields');
+        requestB.register(fragment('UserFields'));
+        requestB.register(fragment('PostFields'));
+        requestB.recordUsage('UserFields');
+        requestB.recordUsage('UserFields');
+        requestB.recordUsage('PostFields');
+
+        const report = new FragmentRegistry().merge(requestA, requestB);
+
+        expect(report.list().map(f => [f.name, f.metadata.usageCount])).toEqual([
+          ['UserFields', 3],
+          ['PostFields', 1]
+        ]);
+        expect(report.getUsageStats()).toMatchObject({ totalFragments: 2, mostUsed: ['UserFields', 'PostFields'] });
+        // Merging does not change the merged registries
+        expect(requestA.list()[0].metadata.usageCount).toBe(1);
+      });
+
+      it('should register tracked fragments in the registry of the options', () => {
+        const registry = new FragmentRegistry();
+        const query = `
+          query { users { ...UserFields } }
+          fragment UserFields on User { id email }
+        `;
+        const fragments = { registry, analysis: { enabled: true, trackUsage: true } };
+
+        GQLPrismaSelect.fromQuery(query, { fragments });
+        GQLPrismaSelect.fromQuery(query, { fragments });
+
+        expect(registry.list().map(f => [f.name, f.metadata.usageCount])).toEqual([['UserFields', 2]]);
+        expect(FragmentRegistry.size()).toBe(0);
+      });
+    });
   });
 
   describe('7.2 Fragment Optimizer', () => {
@@ -0,0 +1,105 @@
+import type { DMMFDatamodel } from '../../dmmf';
+
+// Trimmed-down shape of Prisma.dmmf.datamodel for a blog schema
+export const blogDatamodel: DMMFDatamodel = {
+  models: [
+    {
+      name: 'User',
+      primaryKey: null,
+      fields: [
+        { name: 'id', kind: 'scalar', type: 'Int', isList: false, isId: true },
+        { name: 'email', kind: 'scalar', type: 'String', isList: false },
+        { name: 'firstName', kind: 'scalar', type: 'String', isList: false },
+        { name: 'lastName', kind: 'scalar', type: 'String', isList: false },
+        { name: 'role', kind: 'enum', type: 'Role', isList: false },
+        { name: 'tenantId', kind: 'scalar', type: 'String', isList: false },
+        { name: 'deletedAt', kind: 'scalar', type: 'DateTime', isList: false },
+        {
+          name: 'posts',
+          kind: 'object',
+          type: 'Post',
+          isList: true,
+          relationName: 'PostToUser',
+          relationFromFields: [],
+          relationToFields: [],
+        },
+        {
+          name: 'profile',
+          kind: 'object',
+          type: 'Profile',
+          isList: false,
+          relationName: 'ProfileToUser',
+          relationFromFields: [],
+          relationToFields: [],
+        },
+      ],
+    },
+    {
+      name: 'Post',
+      primaryKey: null,
+      fields: [
+        { name: 'id', kind: 'scalar', type: 'Int', isList: false, isId: true },
+        { name: 'title', kind: 'scalar', type: 'String', isList: false },
+        { name: 'likes', kind: 'scalar', type: 'Int', isList: false },
+        { name: 'authorId', kind: 'scalar', type: 'Int', isList: false },
+        { name: 'tenantId', kind: 'scalar', type: 'String', isList: false },
+        { name: 'deletedAt', kind: 'scalar', type: 'DateTime', isList: false },
+        {
+          name: 'author',
+          kind: 'object',
+          type: 'User',
+          isList: false,
+          relationName: 'PostToUser',
+          relationFromFields: ['authorId'],
+          relationToFields: ['id'],
+        },
+        {
+          name: 'comments',
+          kind: 'object',
+          type: 'Comment',
+          isList: true,
+          relationName: 'CommentToPost',
+          relationFromFields: [],
+          relationToFields: [],
+        },
+      ],
+    },
+    {
+      name: 'Comment',
+      primaryKey: null,
+      fields: [
+        { name: 'id', kind: 'scalar', type: 'Int', isList: false, isId: true },
+        { name: 'body', kind: 'scalar', type: 'String', isList: false },
+        { name: 'postId', kind: 'scalar', type: 'Int', isList: false },
+        {
+          name: 'post',
+          kind: 'object',
+          type: 'Post',
+          isList: false,
+          relationName: 'CommentToPost',
+          relationFromFields: ['postId'],
+          relationToFields: ['id'],
+        },
+      ],
+    },
+    {
+      name: 'Profile',
+      primaryKey: null,
+      fields: [
+        { name: 'id', kind: 'scalar', type: 'Int', isList: false, isId: true },
+        { name: 'bio', kind: 'scalar', type: 'String', isList: false },
+        { name: 'avatarKey', kind: 'scalar', type: 'String', isList: false },
+        { name: 'userId', kind: 'scalar', type: 'Int', isList: false },
+        {
+          name: 'user',
+          kind: 'object',
+          type: 'User',
+          isList: false,
+          relationName: 'ProfileToUser',
+          relationFromFields: ['userId'],
+          relationToFields: ['id'],
+        },
+      ],
+    },
+  ],
+};
@@ -15,7 +15,9 @@ export function createFieldNode(
     },
     arguments: args.map(arg => {
       const createValueNode = (value: any): any => {
-        if (typeof value === 'number') {
+        if (value && value.kind === Kind.VARIABLE) {
+          return value;
+        } else if (typeof value === 'number') {
           return { kind: Kind.INT, value: value.toString() };
         } else if (typeof value === 'boolean') {
           return { kind: Kind.BOOLEAN, value: value };
@@ -54,6 +56,37 @@ export function createFieldNode(
   };
 }
 
+// Helper to create a variable reference usable as an argument value
+export function createVariableNode(name: string): any {
+  return {
+    kind: Kind.VARIABLE,
+    name: {
+      kind: Kind.NAME,
+      value: name,
+    },
+  };
+}
+
+// Helper to create a @skip / @include directive with a literal or variable condition
+export function createDirectiveNode(name: string, condition: boolean | any): any {
+  return {
+    kind: Kind.DIRECTIVE,
+    name: {
+      kind: Kind.NAME,
+      value: name,
+    },
+    arguments: [
+      {
+        kind: Kind.ARGUMENT,
+        name: { kind: Kind.NAME, value: 'if' },
+        value: typeof condition === 'boolean'
+          ? { kind: Kind.BOOLEAN, value: condition }
+          : condition,
+      },
+    ],
+  };
+}
+
 // Helper to create a fragment spread node
 export function createFragmentSpreadNode(name: string): any {
   return {
@@ -0,0 +1,125 @@
+import { buildSchema } from 'graphql';
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { KeyInjector } from '../keys';
+import { PrismaDatamodel } from '../dmmf';
+import { blogDatamodel } from './helpers/datamodel';
+
+describe('Key injection', () => {
+  const datamodel = new PrismaDatamodel(blogDatamodel);
+
+  const select = (query: string, resolvers: string[] = [], options = {}) =>
+    GQLPrismaSelect.fromQuery(query, {
+      datamodel: blogDatamodel,
+      model: 'Post',
+      keys: { resolvers },
+      ...options,
+    });
+
+  it('should replace relations loaded by field resolvers with their foreign keys', () => {
+    const selector = select(`{ post { title author { email } } }`, ['Post.author']);
+
+    expect(selector.select).toEqual({ title: true, authorId: true, id: true });
+    expect(selector.implicitFields).toEqual(['authorId', 'id']);
+  });
+
+  it('should select the referenced key for back-relations', () => {
+    const selector = GQLPrismaSelect.fromQuery(`{ user { email posts { title } profile { bio } } }`, {
+      datamodel: blogDatamodel,
+      model: 'User',
+      keys: { resolvers: ['posts', 'User.profile'] },
+    });
+
+    expect(selector.select).toEqual({ email: true, id: true });
+    expect(selector.implicitFields).toEqual(['id']);
+  });
+
+  it('should select primary keys at every level', () => {
+    const selector = select(`{ post { title comments { body } author { email } } }`);
+
+    expect(selector.select).toEqual({
+      title: true,
+      comments: { select: { body: true, id: true } },
+      author: { select: { email: true, id: true } },
+      id: true,
+    });
+    expect(selector.implicitFields).toEqual(['comments.id', 'author.id', 'id']);
+  });
+
+  it('should not report requested keys', () => {
+    const selector = select(`{ post { id authorId author { id } } }`, ['author']);
+
+    expect(selector.select).toEqual({ id: true, authorId: true });
+    expect(selector.implicitFields).toEqual([]);
+  });
+
+  it('should only inject relation keys with primaryKeys disabled', () => {
+    const selector = select(`{ post { title comments { body author: post { title } } } }`, [], {
+      keys: { resolvers: ['Comment.post'], primaryKeys: false },
+    });
+
+    expect(selector.select).toEqual({ title: true, comments: { select: { body: true, postId: true } } });
+    expect(selector.implicitFields).toEqual(['comments.postId']);
+  });
+
+  it('should use a key map without a datamodel', () => {
+    const schema = buildSchema(`
+      type User { id: ID name: String }
+      type Post { uuid: ID title: String author: User }
+      type Query { post: Post }
+    `);
+    const selector = GQLPrismaSelect.fromQuery(`{ post { title author { name } } }`, {
+      schema,
+      keys: {
+        resolvers: ['Post.author'],
+        keyMap: { Post: { primaryKey: ['uuid'], relations: { author: ['authorUuid'] } } },
+      },
+    });
+
+    expect(selector.select).toEqual({ title: true, authorUuid: true, uuid: true });
+    expect(selector.implicitFields).toEqual(['authorUuid', 'uuid']);
+  });
+
+  it('should throw when the keys of a relation are unknown', () => {
+    const schema = buildSchema(`
+      type User { id: ID name: String }
+      type Post { id: ID title: String author: User }
+      type Query { post: Post }
+    `);
+
+    expect(() => GQLPrismaSelect.fromQuery(`{ post { title author { name } } }`, {
+      schema,
+      keys: { resolvers: ['Post.author'] },
+    })).toThrow('Cannot determine the keys of relation "Post.author"');
+  });
+
+  it('should leave include levels, which select every scalar, without keys', () => {
+    const selector = GQLPrismaSelect.fromQuery(`{ post { author { posts { title } } } }`, {
+      keys: { resolvers: ['posts'], keyMap: { Post: { primaryKey: ['id'] } } },
+    });
+
+    expect(selector.include).toEqual({ author: true });
+    expect(selector.implicitFields).toEqual([]);
+  });
+
+  it('should strip implicit fields from results', () => {
+    const selector = select(`{ post { title comments { body } author { email } } }`, ['Post.author']);
+    const rows = [
+      { id: 1, title: 'a', authorId: 2, comments: [{ id: 3, body: 'b' }] },
+      { id: 4, title: 'c', authorId: 5, comments: [] },
+    ];
+
+    expect(selector.stripImplicitFields(rows)).toEqual([
+      { title: 'a', comments: [{ body: 'b' }] },
+      { title: 'c', comments: [] },
+    ]);
+    expect(rows[0]).toHaveProperty('id', 1);
+  });
+
+  describe('getRelationKeys', () => {
+    it('should resolve keys from the datamodel', () => {
+      expect(KeyInjector.getRelationKeys('Post', 'author', {}, { datamodel })).toEqual(['authorId']);
+      expect(KeyInjector.getRelationKeys('Post', 'comments', {}, { datamodel })).toEqual(['id']);
+      expect(KeyInjector.getRelationKeys('Post', 'title', {}, { datamodel })).toEqual([]);
+    });
+  });
+});
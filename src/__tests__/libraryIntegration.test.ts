@@ -1,12 +1,21 @@
 import { GraphQLResolveInfo } from 'types';
 import { NexusIntegration, ApolloServerIntegration, LibraryRegistry } from '../libraryIntegration';
 import { createMockGraphQLInfo } from './helpers/mockGraphQLInfo';
+import { DocumentResolveInfo } from '../document';
+import { buildSchema } from 'graphql';
 
 // Phase 8: Type-Safe Integration - Library Integration Tests
 
 describe('Library Integration', () => {
   let mockInfo: GraphQLResolveInfo;
 
+  const mutationSchema = buildSchema(`
+    type User { id: ID name: String }
+    type CreateUserPayload { user: User errors: [String] }
+    type Query { user: User }
+    type Mutation { createUser(name: String): CreateUserPayload }
+  `);
+
   beforeEach(() => {
     mockInfo = createMockGraphQLInfo({
       fieldName: 'user',
@@ -47,6 +56,18 @@ describe('Library Integration', () => {
         expect(field).toBeDefined();
         expect(typeof field).toBe('object');
       });
+
+      it('should pass the selection of the payload model to the mutation', async () => {
+        const info = DocumentResolveInfo.build(`mutation { createUser(name: "a") { user { id } errors } }`, {
+          schema: mutationSchema,
+        });
+        const mutation = jest.fn(async () => ({}));
+        const field = NexusIntegration.createMutationField<'User'>({ type: 'CreateUserPayload', mutation, model: 'User' });
+
+        await field.resolve({}, { name: 'a' }, { prisma: {} }, info);
+
+        expect(mutation).toHaveBeenCalledWith({ name: 'a' }, { prisma: {} }, info, { select: { id: true } });
+      });
     });
 
     describe('createResolvers', () => {
@@ -100,6 +121,35 @@ describe('Library Integration', () => {
 
         expect(typeof resolver).toBe('function');
       });
+
+      it('should pass the selection of the payload model to the resolver', async () => {
+        const info = DocumentResolveInfo.build(`mutation { createUser(name: "a") { user { name } errors } }`, {
+          schema: mutationSchema,
+        });
+        const create = jest.fn(async (args: any) => ({ name: args.data.name }));
+        const resolver = ApolloServerIntegration.createMutationResolver<'User'>(
+          'User',
+          async (args, context, info, selection) => ({ user: await create({ data: args, ...selection }) })
+        );
+
+        expect(await resolver({}, { name: 'a' }, {}, info)).toEqual({ user: { name: 'a' } });
+        expect(create).toHaveBeenCalledWith({ data: { name: 'a' }, select: { name: true } });
+      });
+
+      it('should not build the selection of mutations that do not use it', async () => {
+        const schema = buildSchema(`
+          type DeleteResult { count: Int }
+          type Query { count: Int }
+          type Mutation { deleteUsers: DeleteResult }
+        `);
+        const info = DocumentResolveInfo.build(`mutation { deleteUsers { count } }`, { schema });
+        const resolver = ApolloServerIntegration.createMutationResolver<'User'>(
+          'User',
+          async (args, context, info, selection) => ({ count: 2 })
+        );
+
+        expect(await resolver({}, {}, {}, info)).toEqual({ count: 2 });
+      });
     });
   });
 
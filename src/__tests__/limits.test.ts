@@ -0,0 +1,106 @@
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { QueryLimiter } from '../limits';
+import { QueryLimitError } from '../errors';
+import { PrismaDatamodel } from '../dmmf';
+import { blogDatamodel } from './helpers/datamodel';
+
+describe('Query limits', () => {
+  const deepQuery = `{ users { id posts { title author { posts { author { email } } } } } }`;
+
+  it('should measure the selection', () => {
+    const result = GQLPrismaSelect.fromQuery(deepQuery, { limits: {} });
+
+    expect(result.complexity).toEqual({ depth: 4, relations: 4, cost: 4 });
+  });
+
+  it('should not measure without limits', () => {
+    expect(GQLPrismaSelect.fromQuery(deepQuery).complexity).toBeUndefined();
+  });
+
+  it('should reject selections deeper than maxDepth', () => {
+    try {
+      GQLPrismaSelect.fromQuery(deepQuery, { limits: { maxDepth: 3 } });
+      fail('Expected QueryLimitError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(QueryLimitError);
+      expect(error).toMatchObject({
+        limit: 'depth',
+        value: 4,
+        max: 3,
+        path: ['posts', 'author', 'posts', 'author'],
+        message: 'Query depth 4 exceeds the maximum of 3 at "posts.author.posts.author"',
+      });
+    }
+  });
+
+  it('should reject selections with too many relations', () => {
+    expect(() =>
+      GQLPrismaSelect.fromQuery(`{ user { posts { id } profile { bio } comments { id } } }`, {
+        limits: { maxRelations: 2 },
+      })
+    ).toThrow('Query relations 3 exceeds the maximum of 2 at "comments"');
+  });
+
+  it('should multiply costs by take', () => {
+    const result = GQLPrismaSelect.fromQuery(
+      `{ users(take: 10) { posts(take: 20) { comments(take: 5) { id } } } }`,
+      { limits: {} }
+    );
+
+    // posts: 1 x 10, comments: 1 x 10 x 20
+    expect(result.complexity?.cost).toBe(210);
+  });
+
+  it('should reject selections over maxCost', () => {
+    expect(() =>
+      GQLPrismaSelect.fromQuery(
+        `{ users(take: 10) { posts(take: 20) { comments(take: 5) { id } } } }`,
+        { limits: { maxCost: 100 } }
+      )
+    ).toThrow('Query cost 210 exceeds the maximum of 100 at "posts.comments"');
+  });
+
+  it('should use the cost model', () => {
+    const result = GQLPrismaSelect.fromQuery(
+      `{ users { id email posts { title comments { id } } } }`,
+      {
+        limits: {
+          cost: { scalarCost: 1, relationCost: 2, defaultMultiplier: 10, fieldCosts: { email: 5, comments: 3 } },
+        },
+      }
+    );
+
+    // id 1 + email 5 + posts 2 + (title 1 + comments 3) x 10 + id 1 x 100
+    expect(result.complexity?.cost).toBe(148);
+  });
+
+  it('should not multiply to-one relations with a datamodel', () => {
+    const result = GQLPrismaSelect.fromQuery(
+      `{ users { posts(take: 10) { author { profile { bio } } } } }`,
+      {
+        datamodel: blogDatamodel,
+        model: 'User',
+        limits: { cost: { defaultMultiplier: 50, fieldCosts: { 'Post.author': 4 } } },
+      }
+    );
+
+    // posts 1 + author 4 x 10 + profile 1 x 10
+    expect(result.complexity).toEqual({ depth: 3, relations: 3, cost: 51 });
+  });
+
+  it('should ignore relation counts', () => {
+    const complexity = QueryLimiter.analyze({ _count: { select: { posts: true } }, id: true });
+
+    expect(complexity).toEqual({ depth: 0, relations: 0, cost: 0 });
+  });
+
+  it('should count relations selected without sub-fields with a datamodel', () => {
+    const complexity = QueryLimiter.enforce(
+      { posts: true },
+      { maxRelations: 1 },
+      { datamodel: new PrismaDatamodel(blogDatamodel), model: 'User' }
+    );
+
+    expect(complexity.relations).toBe(1);
+  });
+});
@@ -0,0 +1,80 @@
+import { buildSchema } from 'graphql';
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { blogDatamodel } from './helpers/datamodel';
+
+describe('Selection lookahead', () => {
+  const schema = buildSchema(`
+    type Profile { id: Int bio: String }
+    type User { id: Int email: String profile: Profile posts(take: Int): [Post] }
+    type Post { id: Int title: String author: User comments(take: Int, orderBy: String): [Comment] }
+    type Comment { id: Int content: String author: User }
+    type Query { users(take: Int): [User] }
+  `);
+
+  const selector = GQLPrismaSelect.fromQuery(`{
+    users(take: 10) {
+      id
+      email
+      posts(take: 5) {
+        title
+        author { email }
+        comments(take: 3, orderBy: "createdAt") { content author { id } }
+      }
+    }
+  }`, { schema });
+
+  it('should tell whether fields are requested', () => {
+    expect(selector.isRequested('posts.author')).toBe(true);
+    expect(selector.isRequested(['posts', 'comments', 'content'])).toBe(true);
+    expect(selector.isRequested('profile')).toBe(false);
+    expect(selector.isRequested('posts.author.profile')).toBe(false);
+  });
+
+  it('should get the arguments relations are requested with', () => {
+    expect(selector.getRequestedArgs('posts')).toEqual({ take: 5 });
+    expect(selector.getRequestedArgs('posts.comments')).toEqual({ take: 3, orderBy: 'createdAt' });
+    expect(selector.getRequestedArgs('posts.author')).toEqual({});
+    expect(selector.getRequestedArgs('email')).toEqual({});
+    expect(selector.getRequestedArgs('profile')).toBeUndefined();
+  });
+
+  it('should get the scalar fields of a relation', () => {
+    expect(selector.getScalarFields()).toEqual(['id', 'email']);
+    expect(selector.getScalarFields('posts')).toEqual(['title']);
+    expect(selector.getScalarFields('posts.comments')).toEqual(['content']);
+    expect(selector.getScalarFields('profile')).toEqual([]);
+  });
+
+  it('should get the scalar fields of a type anywhere in the selection', () => {
+    expect(selector.getScalarFieldsOfType('User').sort()).toEqual(['email', 'id']);
+    expect(selector.getScalarFieldsOfType('Comment')).toEqual(['content']);
+    expect(selector.getScalarFieldsOfType('Profile')).toEqual([]);
+  });
+
+  it('should tell whether a subtree selects relations', () => {
+    expect(selector.hasRelations()).toBe(true);
+    expect(selector.hasRelations('posts')).toBe(true);
+    expect(selector.hasRelations('posts.author')).toBe(false);
+    expect(selector.hasRelations('posts.comments')).toBe(true);
+    expect(selector.hasRelations('profile')).toBe(false);
+  });
+
+  it('should tell relations selected with true from scalars using the datamodel', () => {
+    const withDependencies = GQLPrismaSelect.fromQuery(`{ users { id avatarUrl } }`, {
+      datamodel: blogDatamodel,
+      model: 'User',
+      computedFields: { User: { avatarUrl: ['email', 'posts'] } },
+    });
+
+    expect(withDependencies.getScalarFields()).toEqual(['id', 'email']);
+    expect(withDependencies.hasRelations()).toBe(true);
+    expect(withDependencies.isRequested('posts')).toBe(true);
+  });
+
+  it('should answer from the query before get and transforms are applied', () => {
+    const nested = GQLPrismaSelect.fromQuery(`{ users { posts { title } } }`, { get: 'posts' });
+
+    expect(nested.select).toEqual({ title: true });
+    expect(nested.isRequested('posts.title')).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+import { buildSchema } from 'graphql';
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { GQLPrismaSelectError } from '../errors';
+import { blogDatamodel } from './helpers/datamodel';
+
+describe('Mutation payloads', () => {
+  const schema = buildSchema(`
+    type User { id: Int email: String posts: [Post] }
+    type Comment { id: Int body: String }
+    type Post { id: Int title: String author: User comments(take: Int): [Comment] }
+    type FieldError { field: String message: String }
+    type CreatePostPayload { post: Post errors: [FieldError] clientMutationId: String }
+    type TransferPostPayload { post: Post previousAuthor: User }
+    input PostInput { title: String }
+    input PostWhere { id: Int }
+    type Query { post: Post }
+    type Mutation {
+      createPost(input: PostInput): CreatePostPayload
+      updatePost(where: PostWhere, data: PostInput): Post
+      transferPost(id: Int, to: Int): TransferPostPayload
+    }
+  `);
+
+  it('should select the model field of a payload', () => {
+    const selector = GQLPrismaSelect.fromQuery(`mutation {
+      createPost(input: { title: "Hello" }) {
+        post { id title author { email } }
+        errors { field message }
+        __typename
+      }
+    }`, { schema, datamodel: blogDatamodel, mutation: true });
+
+    expect(selector.select).toEqual({ id: true, title: true, author: { select: { email: true } } });
+    expect(selector.args).toEqual({});
+    expect(selector.mutation).toEqual({ field: 'post', payload: ['errors'] });
+  });
+
+  it('should find the model field by the model option without a datamodel', () => {
+    const selector = GQLPrismaSelect.fromQuery(`mutation {
+      createPost { clientMutationId post { title comments(take: 5) { body } } }
+    }`, { schema, model: 'Post', mutation: true });
+
+    // The select applies after nested writes, so created comments are returned too
+    expect(selector.select).toEqual({ title: true, comments: { take: 5, select: { body: true } } });
+    expect(selector.mutation).toEqual({ field: 'post', payload: ['clientMutationId'] });
+  });
+
+  it('should select the model from fragments and aliases on the payload', () => {
+    const selector = GQLPrismaSelect.fromQuery(`
+      mutation {
+        createPost { created: post { id } ...Payload }
+      }
+      fragment Payload on CreatePostPayload { post { title } errors { field } }
+    `, { schema, datamodel: blogDatamodel, mutation: true });
+
+    expect(selector.select).toEqual({ id: true, title: true });
+    expect(selector.mutation!.payload).toEqual(['errors']);
+  });
+
+  it('should ignore the write arguments of mutations returning the model', () => {
+    const selector = GQLPrismaSelect.fromQuery(`mutation {
+      updatePost(where: { id: 1 }, data: { title: "Hello" }) { id title }
+    }`, { schema, datamodel: blogDatamodel, mutation: true });
+
+    expect(selector.select).toEqual({ id: true, title: true });
+    expect(selector.args).toEqual({});
+    expect(selector.mutation).toEqual({ field: undefined, payload: [] });
+  });
+
+  it('should require the field of payloads with several models', () => {
+    const query = `mutation { transferPost(id: 1, to: 2) { post { title } previousAuthor { email } } }`;
+
+    expect(() => GQLPrismaSelect.fromQuery(query, { schema, datamodel: blogDatamodel, mutation: true }))
+      .toThrow(GQLPrismaSelectError);
+    expect(() => GQLPrismaSelect.fromQuery(query, { schema, datamodel: blogDatamodel, mutation: { field: 'author' } }))
+      .toThrow('Mutation payload "TransferPostPayload" has no field "author"');
+
+    const selector = GQLPrismaSelect.fromQuery(query, { schema, datamodel: blogDatamodel, mutation: { field: 'post' } });
+    expect(selector.select).toEqual({ title: true });
+    expect(selector.mutation!.payload).toEqual(['previousAuthor']);
+  });
+
+  it('should select the given field without a schema', () => {
+    const selector = GQLPrismaSelect.fromQuery(
+      `mutation { createPost { post { title author { email } } errors { field } } }`,
+      { datamodel: blogDatamodel, model: 'Post', mutation: { field: 'post' } }
+    );
+
+    expect(selector.select).toEqual({ title: true, author: { select: { email: true } } });
+    expect(() => GQLPrismaSelect.fromQuery(`mutation { createPost { post { id } } }`, { mutation: true }))
+      .toThrow('The mutation payload type is unknown');
+  });
+
+  it('should answer lookahead questions relative to the model', () => {
+    const selector = GQLPrismaSelect.fromQuery(`mutation {
+      createPost { post { title author { email } } errors { field } }
+    }`, { schema, model: 'Post', mutation: true });
+
+    expect(selector.isRequested('author.email')).toBe(true);
+    expect(selector.isRequested('errors')).toBe(false);
+    expect(selector.getScalarFieldsOfType('User')).toEqual(['email']);
+  });
+});
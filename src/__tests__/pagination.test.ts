@@ -0,0 +1,168 @@
+import { buildSchema } from 'graphql';
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { PaginationGuard, PaginationPolicy } from '../pagination';
+import { PaginationError } from '../errors';
+import { PrismaDatamodel } from '../dmmf';
+import { blogDatamodel } from './helpers/datamodel';
+
+describe('Pagination policy', () => {
+  const schema = buildSchema(`
+    input Cursor { id: Int }
+    type User {
+      id: Int
+      tags(take: Int): [String]
+      posts(take: Int, skip: Int, cursor: Cursor): [Post]
+      profile: Profile
+    }
+    type Profile { bio: String }
+    type Post { id: Int title: String comments(take: Int): [Comment] author: User }
+    type Comment { id: Int }
+    type PostConnection { edges: [PostEdge] }
+    type PostEdge { node: Post cursor: String }
+    type Query {
+      users(take: Int, skip: Int): [User]
+      user: User
+      postsConnection(first: Int, last: Int, before: String): PostConnection
+    }
+  `);
+
+  const policy: PaginationPolicy = { defaultTake: 20, maxTake: 50, maxSkip: 1000 };
+
+  const select = (query: string, pagination: PaginationPolicy = policy, options = {}) =>
+    GQLPrismaSelect.fromQuery(query, { schema, pagination, ...options });
+
+  it('should clamp oversized take values', () => {
+    const result = select(`{ users(take: 100000) { id posts(take: 500) { id } } }`);
+
+    expect(result.args).toEqual({ take: 50 });
+    expect(result.select).toEqual({ id: true, posts: { select: { id: true }, take: 50 } });
+  });
+
+  it('should reject oversized take values when configured', () => {
+    expect(() => select(`{ users { posts(take: 500) { id } } }`, { ...policy, onExceed: 'reject' }))
+      .toThrow('Invalid take on field "User.posts": 500 exceeds the maximum of 50');
+  });
+
+  it('should apply a default take to lists only', () => {
+    const result = select(`{ users { id tags profile { bio } posts { id comments { id } author { id } } } }`);
+
+    expect(result.args).toEqual({ take: 20 });
+    expect(result.select).toEqual({
+      id: true,
+      tags: true,
+      profile: { select: { bio: true } },
+      posts: {
+        select: { id: true, comments: { select: { id: true }, take: 20 }, author: { select: { id: true } } },
+        take: 20,
+      },
+    });
+  });
+
+  it('should not apply a default take to single roots', () => {
+    expect(select(`{ user { id } }`).args).toEqual({});
+  });
+
+  it('should prefer relation limits over model and global limits', () => {
+    const result = select(`{ users { id posts { id comments { id } } } }`, {
+      ...policy,
+      models: { Comment: { defaultTake: 5, maxTake: 10 } },
+      relations: { 'User.posts': { defaultTake: 3 } },
+    });
+
+    expect(result.args).toEqual({ take: 20 });
+    expect(result.select).toEqual({
+      id: true,
+      posts: { select: { id: true, comments: { select: { id: true }, take: 5 } }, take: 3 },
+    });
+  });
+
+  it('should reject negative take values', () => {
+    expect(() => select(`{ users(take: -5) { id } }`)).toThrow(PaginationError);
+  });
+
+  it('should allow backward pagination of connections', () => {
+    const result = select(`{ postsConnection(last: 100, before: "5") { edges { node { id } } } }`, policy, {
+      connection: true,
+    });
+
+    expect(result.args).toEqual({ take: -50, cursor: { id: '5' }, skip: 1 });
+  });
+
+  it('should reject invalid and huge skip values', () => {
+    expect(() => select(`{ users(skip: -1) { id } }`))
+      .toThrow('Invalid skip on field "Query.users": expected a non-negative integer, got -1');
+    expect(() => select(`{ users(skip: 5000) { id } }`))
+      .toThrow('Invalid skip on field "Query.users": 5000 exceeds the maximum of 1000');
+  });
+
+  it('should validate cursors', () => {
+    expect(() => select(`{ user { posts(cursor: {}) { id } } }`)).toThrow(PaginationError);
+    expect(() => select(`{ user { posts(cursor: { id: null }) { id } } }`))
+      .toThrow('Invalid cursor on field "User.posts": invalid value for "id"');
+    expect(select(`{ user { id posts(cursor: { id: 3 }) { id } } }`).select).toEqual({
+      id: true,
+      posts: { select: { id: true }, cursor: { id: 3 }, take: 20 },
+    });
+  });
+
+  it('should apply limits to alias selections', () => {
+    const result = select(`{ users { recent: posts(take: 100) { id } } }`);
+
+    expect(result.getAliases('posts').recent.args).toEqual({ take: 50 });
+  });
+
+  it('should merge aliases with the same limited arguments', () => {
+    const result = select(
+      `{ user { a: posts { id } b: posts { title comments(take: 3) { id } } c: posts { id comments(take: 3) { id } } } }`,
+      { defaultTake: 10, maxTake: 50 },
+      { mergeAliases: true }
+    );
+
+    expect(result.include).toEqual({
+      posts: { take: 10, select: { id: true, title: true, comments: { take: 3, select: { id: true } } } },
+    });
+  });
+
+  it('should reject merged aliases with different arguments', () => {
+    const policy = { defaultTake: 10, maxTake: 50 };
+
+    // A single limited query cannot return the rows of both pages
+    expect(() => select(`{ user { a: posts(take: 5) { id } b: posts { title } } }`, policy, { mergeAliases: true }))
+      .toThrow('Aliases of "posts" request different arguments');
+    expect(() => select(
+      `{ user { a: posts { comments(take: 3) { id } } b: posts { comments { id } } } }`,
+      policy,
+      { mergeAliases: true }
+    )).toThrow('Aliases of "comments" request different arguments');
+  });
+
+  describe('PaginationGuard', () => {
+    const datamodel = new PrismaDatamodel(blogDatamodel);
+
+    it('should detect lists from the datamodel', () => {
+      const result = GQLPrismaSelect.fromQuery(`{ users { posts { author { id } } } }`, {
+        datamodel: blogDatamodel,
+        model: 'User',
+        pagination: policy,
+      });
+
+      expect(result.select).toEqual({
+        posts: { select: { author: { select: { id: true } } }, take: 20 },
+      });
+    });
+
+    it('should validate cursor fields against the model', () => {
+      const target = { fieldName: 'posts', model: 'Post', isList: true, datamodel };
+
+      expect(() => PaginationGuard.apply({ cursor: { slug: 'a' } }, {}, target))
+        .toThrow('"slug" is not a field of Post');
+      expect(PaginationGuard.apply({ cursor: { authorId_title: { authorId: 1, title: 'a' } } }, {}, target))
+        .toEqual({ cursor: { authorId_title: { authorId: 1, title: 'a' } } });
+    });
+
+    it('should reject non-integer take values', () => {
+      expect(() => PaginationGuard.apply({ take: '10' }, {}, { fieldName: 'posts', isList: true }))
+        .toThrow('Invalid take on field "posts": expected an integer, got "10"');
+    });
+  });
+});
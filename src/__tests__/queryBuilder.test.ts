@@ -0,0 +1,127 @@
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { PrismaQueryBuilder } from '../queryBuilder';
+
+describe('PrismaQueryBuilder', () => {
+  const createBuilder = (query: string) => new PrismaQueryBuilder(GQLPrismaSelect.fromQuery(query));
+
+  describe('findMany', () => {
+    it('should combine the selection with the client arguments', () => {
+      const builder = createBuilder(`{
+        posts(take: 10, skip: 5, where: { published: true }, orderBy: { createdAt: desc }) { id title }
+      }`);
+
+      expect(builder.findMany()).toEqual({
+        select: { id: true, title: true },
+        where: { published: true },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+        skip: 5,
+      });
+    });
+
+    it('should merge resolver conditions with the client filter', () => {
+      const builder = createBuilder(`{ posts(where: { published: true }) { id } }`)
+        .where({ authorId: 1 })
+        .where({ tenantId: 't1' });
+
+      expect(builder.findMany().where).toEqual({ published: true, authorId: 1, tenantId: 't1' });
+    });
+
+    it('should not let the client override resolver conditions', () => {
+      const builder = createBuilder(`{ posts(where: { authorId: 2, title: { contains: "a" } }) { id } }`)
+        .where({ authorId: 1 });
+
+      expect(builder.findMany().where).toEqual({
+        authorId: 2,
+        title: { contains: 'a' },
+        AND: [{ authorId: 1 }],
+      });
+    });
+
+    it('should append resolver ordering after the client ordering', () => {
+      const builder = createBuilder(`{ posts(orderBy: { likes: desc }) { id } }`).orderBy({ id: 'asc' });
+
+      expect(builder.findMany().orderBy).toEqual([{ likes: 'desc' }, { id: 'asc' }]);
+    });
+
+    it('should let resolver pagination and distinct override the client', () => {
+      const builder = createBuilder(`{ posts(take: 100, skip: 1, distinct: [title]) { id } }`)
+        .paginate({ take: 20, cursor: { id: 5 } })
+        .distinct(['authorId']);
+
+      expect(builder.findMany()).toEqual({
+        select: { id: true },
+        take: 20,
+        skip: 1,
+        cursor: { id: 5 },
+        distinct: ['authorId'],
+      });
+    });
+
+    it('should omit arguments that were not provided', () => {
+      const builder = createBuilder(`{ posts { id author { email } } }`);
+
+      expect(builder.findMany()).toEqual({
+        select: { id: true, author: { select: { email: true } } },
+      });
+      expect(builder.build()).toEqual(builder.findMany());
+      expect(builder.findFirst()).toEqual(builder.findMany());
+    });
+  });
+
+  describe('findUnique', () => {
+    it('should keep the unique filter next to other conditions', () => {
+      const builder = createBuilder(`{ post(take: 1) { id title } }`).where({ deletedAt: null });
+
+      expect(builder.findUnique({ id: 1 })).toEqual({
+        select: { id: true, title: true },
+        where: { id: 1, deletedAt: null },
+      });
+    });
+  });
+
+  describe('count', () => {
+    it('should only count by filter', () => {
+      const builder = createBuilder(`{ posts(take: 10, where: { published: true }) { id } }`)
+        .where({ authorId: 1 });
+
+      expect(builder.count()).toEqual({ where: { published: true, authorId: 1 } });
+    });
+  });
+
+  describe('aggregate', () => {
+    it('should combine aggregations with the query arguments', () => {
+      const builder = createBuilder(`{ posts(take: 10, where: { published: true }) { id } }`);
+
+      expect(builder.aggregate({ _avg: { likes: true } })).toEqual({
+        where: { published: true },
+        take: 10,
+        _avg: { likes: true },
+      });
+    });
+  });
+
+  describe('mergeWhere', () => {
+    it('should keep disjoint fields side by side', () => {
+      expect(PrismaQueryBuilder.mergeWhere({ a: 1 }, { b: 2 })).toEqual({ a: 1, b: 2 });
+    });
+
+    it('should combine conflicting fields under AND', () => {
+      expect(PrismaQueryBuilder.mergeWhere({ a: 1, OR: [{ b: 1 }] }, { a: 2, OR: [{ c: 1 }] })).toEqual({
+        a: 1,
+        OR: [{ b: 1 }],
+        AND: [{ a: 2 }, { OR: [{ c: 1 }] }],
+      });
+    });
+
+    it('should concatenate AND conditions', () => {
+      expect(PrismaQueryBuilder.mergeWhere({ AND: { a: 1 } }, { AND: [{ b: 2 }] })).toEqual({
+        AND: [{ a: 1 }, { b: 2 }],
+      });
+    });
+
+    it('should not duplicate identical conditions', () => {
+      expect(PrismaQueryBuilder.mergeWhere({ a: { gt: 1 } }, { a: { gt: 1 } })).toEqual({ a: { gt: 1 } });
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { parse } from 'graphql';
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { SelectionCache } from '../selectionCache';
+import { GQLPrismaSelectError } from '../errors';
+import { blogDatamodel } from './helpers/datamodel';
+
+describe('SelectionCache', () => {
+  const query = parse(`
+    query Users($take: Int, $withPosts: Boolean!, $unused: String) {
+      users(take: $take) {
+        id
+        posts @include(if: $withPosts) { title }
+      }
+      other: users(where: { email: $unused }) { email }
+    }
+  `);
+
+  it('should return cached selections for the same operation, path and variables', () => {
+    const cache = new SelectionCache();
+    const variables = { take: 5, withPosts: true };
+
+    const first = GQLPrismaSelect.fromQuery(query, { variables, cache });
+    const second = GQLPrismaSelect.fromQuery(query, { variables, cache });
+
+    expect(second.select).toEqual(first.select);
+    expect(second.include).toEqual(first.include);
+    expect(second.args).toEqual({ take: 5 });
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, totalEntries: 1, hitRate: 0.5 });
+  });
+
+  it('should only key on variables used under the field', () => {
+    const cache = new SelectionCache();
+
+    GQLPrismaSelect.fromQuery(query, { variables: { take: 5, withPosts: true, unused: 'a' }, cache });
+    GQLPrismaSelect.fromQuery(query, { variables: { take: 5, withPosts: true, unused: 'b' }, cache });
+    const withoutPosts = GQLPrismaSelect.fromQuery(query, { variables: { take: 5, withPosts: false }, cache });
+    const otherTake = GQLPrismaSelect.fromQuery(query, { variables: { take: 10, withPosts: true }, cache });
+
+    expect(withoutPosts.select).toEqual({ id: true });
+    expect(otherTake.args).toEqual({ take: 10 });
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 3 });
+  });
+
+  it('should key on the response path', () => {
+    const cache = new SelectionCache();
+    const variables = { withPosts: true, unused: 'a' };
+
+    const users = GQLPrismaSelect.fromQuery(query, { variables, cache });
+    const other = GQLPrismaSelect.fromQuery(query, { variables, path: 'other', cache });
+
+    expect(users.select).toEqual({ id: true, posts: { select: { title: true } } });
+    expect(other.select).toEqual({ email: true });
+    expect(other.args).toEqual({ where: { email: 'a' } });
+    expect(cache.getStats().misses).toBe(2);
+  });
+
+  it('should not share mutable selections between requests', () => {
+    const cache = new SelectionCache();
+    const variables = { withPosts: true };
+
+    const first = GQLPrismaSelect.fromQuery(query, { variables, cache });
+    (first.select as any).posts.where = { published: true };
+    first.args.take = 1;
+
+    const second = GQLPrismaSelect.fromQuery(query, { variables, cache });
+    expect(second.select).toEqual({ id: true, posts: { select: { title: true } } });
+    expect(second.args).toEqual({});
+  });
+
+  it('should expire entries after the ttl', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    try {
+      const cache = new SelectionCache({ ttl: 1000 });
+      const variables = { withPosts: true };
+
+      GQLPrismaSelect.fromQuery(query, { variables, cache });
+      now.mockReturnValue(999);
+      GQLPrismaSelect.fromQuery(query, { variables, cache });
+      now.mockReturnValue(1000);
+      GQLPrismaSelect.fromQuery(query, { variables, cache });
+
+      expect(cache.getStats()).toMatchObject({ hits: 1, misses: 2, totalEntries: 1 });
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it('should evict the least recently used entry', () => {
+    const cache = new SelectionCache({ maxSize: 2 });
+
+    cache.set('a', { args: {} });
+    cache.set('b', { args: {} });
+    cache.get('a');
+    cache.set('c', { args: {} });
+
+    expect(cache.get('a')).toBeDefined();
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBeDefined();
+    expect(cache.getStats()).toMatchObject({ evictions: 1, totalEntries: 2 });
+
+    cache.clear();
+    expect(cache.getStats()).toEqual({ hits: 0, misses: 0, hitRate: 0, evictions: 0, totalEntries: 0 });
+  });
+
+  it('should require a cacheKey with per-request filters', () => {
+    const cache = new SelectionCache();
+    const filters = { models: { Post: { tenantKey: 'authorId' } }, tenantId: 1 };
+    const options = { datamodel: blogDatamodel, model: 'User', variables: { withPosts: true }, cache };
+
+    expect(() => GQLPrismaSelect.fromQuery(query, { ...options, filters }))
+      .toThrow(GQLPrismaSelectError);
+
+    const tenant1 = GQLPrismaSelect.fromQuery(query, { ...options, filters, cacheKey: 'tenant:1' });
+    const tenant2 = GQLPrismaSelect.fromQuery(query, {
+      ...options,
+      filters: { ...filters, tenantId: 2 },
+      cacheKey: 'tenant:2',
+    });
+
+    expect((tenant1.select as any).posts.where).toEqual({ authorId: 1 });
+    expect((tenant2.select as any).posts.where).toEqual({ authorId: 2 });
+    expect(cache.getStats().misses).toBe(2);
+  });
+});
@@ -0,0 +1,154 @@
+import { Kind } from 'graphql/language/kinds';
+import { buildSchema } from 'graphql';
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { blogDatamodel } from './helpers/datamodel';
+import {
+  createMockGraphQLInfo,
+  createFieldNode,
+  createFragmentSpreadNode,
+  createFragmentDefinition,
+} from './helpers/mockGraphQLInfo';
+
+describe('Type selections', () => {
+  const schema = buildSchema(`
+    interface Node { id: Int }
+    interface Authored { author: User }
+    type User implements Node { id: Int email: String name: String }
+    type Post implements Node & Authored { id: Int title: String author: User }
+    type Comment implements Node & Authored { id: Int content: String author: User }
+    union SearchResult = User | Post | Comment
+    type Query { search: [SearchResult] node: Node }
+  `);
+
+  const inlineFragment = (typeName: string | undefined, selections: any[]) => ({
+    kind: Kind.INLINE_FRAGMENT,
+    typeCondition: typeName
+      ? { kind: Kind.NAMED_TYPE, name: { kind: Kind.NAME, value: typeName } }
+      : undefined,
+    selectionSet: { kind: Kind.SELECTION_SET, selections },
+  });
+
+  const createInfo = (returnType: string | undefined, fieldNodes: any[], fragments?: Record<string, any>) => {
+    const info = createMockGraphQLInfo(fieldNodes, fragments);
+    if (returnType) {
+      (info as any).schema = schema;
+      (info as any).returnType = schema.getType(returnType);
+    }
+    return info;
+  };
+
+  it('should split union selections by concrete type', () => {
+    const info = createInfo('SearchResult', [
+      inlineFragment('User', [createFieldNode('email')]),
+      inlineFragment('Post', [createFieldNode('title')]),
+    ]);
+
+    const result = new GQLPrismaSelect(info);
+
+    expect(result.getTypeSelections()).toEqual({
+      User: { type: 'User', select: { email: true }, include: undefined },
+      Post: { type: 'Post', select: { title: true }, include: undefined },
+      Comment: { type: 'Comment', include: {}, select: undefined },
+    });
+    // The flat selection still merges every type
+    expect(result.select).toEqual({ email: true, title: true });
+  });
+
+  it('should apply interface fields and fragments to every implementation', () => {
+    const info = createInfo('Node', [
+      createFieldNode('id'),
+      inlineFragment('Authored', [createFieldNode('author', [createFieldNode('name')])]),
+      inlineFragment('Post', [createFieldNode('title')]),
+    ]);
+
+    const selections = new GQLPrismaSelect(info).getTypeSelections();
+
+    expect(selections.User.select).toEqual({ id: true });
+    expect(selections.Post.select).toEqual({
+      id: true,
+      author: { select: { name: true } },
+      title: true,
+    });
+    expect(selections.Comment.select).toEqual({
+      id: true,
+      author: { select: { name: true } },
+    });
+  });
+
+  it('should filter fragment spreads by their type condition', () => {
+    const postFields = {
+      ...createFragmentDefinition('PostFields', [createFieldNode('title')]),
+      typeCondition: { kind: Kind.NAMED_TYPE, name: { kind: Kind.NAME, value: 'Post' } },
+    };
+    const info = createInfo(
+      'SearchResult',
+      [
+        createFragmentSpreadNode('UserFields'),
+        createFragmentSpreadNode('PostFields'),
+      ],
+      {
+        UserFields: createFragmentDefinition('UserFields', [createFieldNode('email')]),
+        PostFields: postFields,
+      }
+    );
+
+    const selections = new GQLPrismaSelect(info).getTypeSelections();
+
+    expect(selections.User.select).toEqual({ email: true });
+    expect(selections.Post.select).toEqual({ title: true });
+  });
+
+  it('should include fragments without a type condition for every type', () => {
+    const info = createInfo('SearchResult', [
+      inlineFragment(undefined, [createFieldNode('__typename')]),
+      inlineFragment('Comment', [createFieldNode('content')]),
+    ]);
+
+    const selections = new GQLPrismaSelect(info, { excludeFields: [] }).getTypeSelections();
+
+    expect(selections.User.select).toEqual({ __typename: true });
+    expect(selections.Comment.select).toEqual({ __typename: true, content: true });
+  });
+
+  it('should use the type conditions of the query without a schema', () => {
+    const info = createInfo(undefined, [
+      inlineFragment('User', [createFieldNode('email')]),
+      inlineFragment('Post', [createFieldNode('title')]),
+    ]);
+
+    const selections = new GQLPrismaSelect(info).getTypeSelections();
+
+    expect(Object.keys(selections)).toEqual(['User', 'Post']);
+    expect(selections.User.select).toEqual({ email: true });
+    expect(selections.Post.select).toEqual({ title: true });
+  });
+
+  it('should return a single entry for object return types', () => {
+    const info = createInfo('User', [createFieldNode('id'), createFieldNode('email')]);
+
+    const selections = new GQLPrismaSelect(info).getTypeSelections();
+
+    expect(selections).toEqual({
+      User: { type: 'User', select: { id: true, email: true }, include: undefined },
+    });
+  });
+
+  it('should build schema-aware selections for Prisma models', () => {
+    const info = createInfo('SearchResult', [
+      inlineFragment('Post', [
+        createFieldNode('title'),
+        createFieldNode('author', [createFieldNode('email')]),
+      ]),
+      inlineFragment('User', [createFieldNode('email'), createFieldNode('name')]),
+    ]);
+
+    const selections = new GQLPrismaSelect(info, { datamodel: blogDatamodel }).getTypeSelections();
+
+    expect(selections.Post).toEqual({
+      type: 'Post',
+      select: { title: true, author: { select: { email: true } } },
+    });
+    // `name` only exists in the GraphQL schema
+    expect(selections.User).toEqual({ type: 'User', select: { email: true } });
+  });
+});
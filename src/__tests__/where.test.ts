@@ -0,0 +1,175 @@
+import { buildSchema } from 'graphql';
+import { GQLPrismaSelect } from '../GQLPrismaSelect';
+import { WhereOptions, WhereValidator } from '../where';
+import { InvalidWhereError } from '../errors';
+import { PrismaDatamodel } from '../dmmf';
+import { blogDatamodel } from './helpers/datamodel';
+
+describe('Where allowlist', () => {
+  const options: WhereOptions = {
+    allow: {
+      User: { email: ['equals', 'contains'], role: true, posts: ['some', 'none'] },
+      Post: { title: ['contains'], likes: ['gt', 'in'] },
+    },
+    maxDepth: 2,
+    maxInLength: 3,
+  };
+
+  const select = (query: string, where: WhereOptions = options) =>
+    GQLPrismaSelect.fromQuery(query, { datamodel: blogDatamodel, model: 'User', where });
+
+  const datamodel = new PrismaDatamodel(blogDatamodel);
+
+  it('should accept allowed fields and operators', () => {
+    const result = select(`{
+      users(where: { email: { contains: "@acme.com", mode: insensitive }, role: ADMIN }) {
+        posts(where: { likes: { gt: 10 } }) { id }
+      }
+    }`);
+
+    expect(result.args.where).toEqual({ email: { contains: '@acme.com', mode: 'insensitive' }, role: 'ADMIN' });
+    expect((result.select as any).posts.where).toEqual({ likes: { gt: 10 } });
+  });
+
+  it('should reject fields that are not filterable with their path', () => {
+    try {
+      select(`{ users { posts(where: { authorId: 1 }) { id } } }`);
+      fail('Expected InvalidWhereError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidWhereError);
+      expect((error as InvalidWhereError).errors).toEqual([
+        {
+          field: 'authorId',
+          expectedType: 'filterable field',
+          actualType: 'authorId',
+          message: "Field 'authorId' is not filterable on Post",
+          path: ['users', 'posts', 'where', 'authorId'],
+        },
+      ]);
+    }
+  });
+
+  it('should reject operators that are not allowed', () => {
+    expect(() => select(`{ users(where: { email: { startsWith: "a" } }) { id } }`))
+      .toThrow("Invalid where filter: users.where.email.startsWith: Operator 'startsWith' is not allowed");
+  });
+
+  it('should treat plain values as equals', () => {
+    expect(select(`{ users(where: { email: "a@b.c" }) { id } }`).args.where).toEqual({ email: 'a@b.c' });
+    expect(() => select(`{ users { posts(where: { title: "a" }) { id } } }`))
+      .toThrow("Operator 'equals' is not allowed");
+  });
+
+  it('should validate relation filters against the related model', () => {
+    expect(() => select(`{ users(where: { posts: { some: { authorId: 1 } } }) { id } }`))
+      .toThrow('users.where.posts.some.authorId');
+    expect(() => select(`{ users(where: { posts: { every: { title: { contains: "a" } } } }) { id } }`))
+      .toThrow("Operator 'every' is not allowed");
+    expect(select(`{ users(where: { posts: { some: { title: { contains: "a" } } } }) { id } }`).args.where)
+      .toEqual({ posts: { some: { title: { contains: 'a' } } } });
+  });
+
+  it('should check relation filters against the GraphQL schema without a datamodel', () => {
+    const schema = buildSchema(`
+      type User { id: Int email: String posts: [Post] }
+      type Post { id: Int title: String }
+      type Query { users(where: UserWhere): [User] }
+      input UserWhere { posts: PostFilter }
+      input PostFilter { some: PostWhere }
+      input PostWhere { title: String secretColumn: String }
+    `);
+    const where: WhereOptions = { allow: { User: { posts: true }, Post: { title: true } } };
+
+    expect(() => GQLPrismaSelect.fromQuery(`{ users(where: { posts: { some: { secretColumn: "x" } } }) { id } }`, { schema, where }))
+      .toThrow("Field 'secretColumn' is not filterable on Post");
+    expect(GQLPrismaSelect.fromQuery(`{ users(where: { posts: { some: { title: "a" } } }) { id } }`, { schema, where }).args)
+      .toEqual({ where: { posts: { some: { title: 'a' } } } });
+  });
+
+  it('should reject nested filters on fields of unknown type', () => {
+    const result = WhereValidator.validate(
+      { posts: { some: { secretColumn: 'x' } }, author: { secretColumn: 'x' }, email: 'a' },
+      'User',
+      { allow: { User: { posts: ['some'], author: true, email: true } } }
+    );
+
+    expect(result.errors.map((error) => error.message)).toEqual([
+      "Nested filters on 'posts' can't be checked without its type",
+      "Nested filters on 'author' can't be checked without its type",
+    ]);
+  });
+
+  it('should limit the nesting of logical operators', () => {
+    expect(select(`{ users(where: { OR: [{ email: "a" }, { NOT: { role: USER } }] }) { id } }`).args.where)
+      .toEqual({ OR: [{ email: 'a' }, { NOT: { role: 'USER' } }] });
+    expect(() => select(`{ users(where: { OR: [{ AND: [{ NOT: { role: USER } }] }] }) { id } }`))
+      .toThrow('users.where.OR.0.AND.0.NOT: Logical operators are nested deeper than 2');
+  });
+
+  it('should limit the length of in lists', () => {
+    expect(() => select(`{ users { posts(where: { likes: { in: [1, 2, 3, 4] } }) { id } } }`))
+      .toThrow("'in' lists are limited to 3 values");
+  });
+
+  it('should not allow filtering models without an entry', () => {
+    expect(() => select(`{ users { posts { comments(where: { body: "a" }) { id } } } }`))
+      .toThrow("Field 'body' is not filterable on Comment");
+  });
+
+  it('should strip violations when configured', () => {
+    const result = select(
+      `{ users(where: { email: "a", passwordHash: "x", OR: [{ role: USER }, { tenantId: "t" }] }) {
+        posts(where: { authorId: 1 }) { id }
+      } }`,
+      { ...options, onViolation: 'strip' }
+    );
+
+    expect(result.args.where).toEqual({ email: 'a', OR: [{ role: 'USER' }, {}] });
+    expect((result.select as any).posts).toEqual({ select: { id: true } });
+  });
+
+  it('should check fragment fields where they are spread with fragment options', () => {
+    const fragment = 'fragment F on User { posts(where: { authorId: 1 }) { id } }';
+    const fromQuery = (query: string) => GQLPrismaSelect.fromQuery(`${query} ${fragment}`, {
+      datamodel: blogDatamodel,
+      model: 'User',
+      where: options,
+      fragments: { analysis: { enabled: true, trackUsage: false } },
+    });
+
+    expect(() => fromQuery(`{ users { ...F } }`)).toThrow("Field 'authorId' is not filterable on Post");
+    expect(fromQuery(`{ users { id ...F @skip(if: true) } }`).select).toEqual({ id: true });
+  });
+
+  it('should leave arguments alone without where options', () => {
+    const result = GQLPrismaSelect.fromQuery(`{ users(where: { passwordHash: "x" }) { id } }`);
+
+    expect(result.args.where).toEqual({ passwordHash: 'x' });
+  });
+
+  describe('WhereValidator.validate', () => {
+    it('should report every violation', () => {
+      const result = WhereValidator.validate(
+        { email: { startsWith: 'a' }, passwordHash: 'x', posts: { some: { likes: { in: [1, 2, 3, 4] } } } },
+        'User',
+        options,
+        datamodel
+      );
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors.map((error) => error.path.join('.'))).toEqual([
+        'email.startsWith',
+        'passwordHash',
+        'posts.some.likes.in',
+      ]);
+    });
+
+    it('should accept valid filters', () => {
+      expect(WhereValidator.validate({ role: { in: ['ADMIN'] } }, 'User', options, datamodel)).toEqual({
+        isValid: true,
+        errors: [],
+        warnings: [],
+      });
+    });
+  });
+});
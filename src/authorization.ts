@@ -0,0 +1,69 @@
+import { ForbiddenFieldError } from './errors';
+
+// Field-level authorization
+
+/**
+ * Field being authorized
+ */
+export interface AuthorizedField {
+  typeName: string;
+  fieldName: string;
+  path: string[];                  // Response path of the field
+  args: Record<string, any>;       // Argument values of the field
+}
+
+/**
+ * Outcome of an authorization rule
+ */
+export type AuthorizationDecision =
+  | boolean                        // Select the field, or apply the default `onDeny` action
+  | 'strip'                        // Drop the field silently
+  | 'throw'                        // Throw a ForbiddenFieldError
+  | { substitute: string[] };      // Drop the field and select these fields instead, e.g. for an owner check in the resolver
+
+export type AuthorizationRule<TContext = any> = (
+  context: TContext,
+  field: AuthorizedField
+) => AuthorizationDecision;
+
+/**
+ * Authorization rules per GraphQL type and field, evaluated while building selections
+ */
+export interface AuthorizationOptions<TContext = any> {
+  context?: TContext;
+  rules: {
+    [typeName: string]: {
+      [field: string]: AuthorizationRule<TContext>;
+    };
+  };
+  onDeny?: 'strip' | 'throw';      // Action of rules returning false (default 'throw')
+}
+
+/**
+ * Evaluates field authorization rules
+ */
+export class FieldAuthorizer {
+  /**
+   * Authorize a field
+   * @returns true to select the field, false to drop it, or the fields to select instead
+   */
+  static authorize(options: AuthorizationOptions, field: AuthorizedField): boolean | string[] {
+    const rule = options.rules[field.typeName]?.[field.fieldName];
+    if (!rule) {
+      return true;
+    }
+
+    let decision = rule(options.context, field);
+    if (decision === true) {
+      return true;
+    }
+    if (decision === false) {
+      decision = options.onDeny || 'throw';
+    }
+
+    if (decision === 'throw') {
+      throw new ForbiddenFieldError(`${field.typeName}.${field.fieldName}`, field.path);
+    }
+    return decision === 'strip' ? false : decision.substitute;
+  }
+}
@@ -0,0 +1,244 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as crypto from 'crypto';
+import type { KeyValueCache, KeyValueCacheSetOptions } from 'apollo-server-caching';
+
+// Cache storage
+
+/**
+ * Storage of serialized cache entries, shared between processes by external
+ * stores. Any apollo-server-caching `KeyValueCache` (e.g. a Redis or Memcached
+ * cache) can be used. TTLs are given in seconds
+ */
+export type CacheStore = KeyValueCache<string>;
+
+/**
+ * Options of a cache backed by a CacheStore
+ */
+export interface CacheStoreOptions {
+  store: CacheStore;
+  prefix?: string;                 // Namespace of the cache's keys in the store
+  ttl?: number;                    // Time to live in milliseconds
+  compression?: boolean;           // Gzip serialized entries
+  onError?: (error: unknown) => void; // Store failures never fail a query; report them here
+}
+
+/**
+ * Entry loaded from a store
+ */
+export interface StoredEntry<T> {
+  value: T;
+  expiresAt?: number;
+}
+
+interface MemoryStoreEntry {
+  value: string;
+  expiresAt?: number;
+}
+
+/**
+ * In-process CacheStore, e.g. to share a compressed cache between several
+ * caches of one process
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, MemoryStoreEntry>();
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry?.value;
+  }
+
+  async set(key: string, value: string, options?: KeyValueCacheSetOptions): Promise<void> {
+    this.entries.set(key, { value, expiresAt: CacheSerializer.getExpiry(options) });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+}
+
+/**
+ * CacheStore keeping one file per entry in a directory, which can be shared
+ * by the processes of a host
+ */
+export class FileSystemCacheStore implements CacheStore {
+  constructor(private directory: string) {}
+
+  async get(key: string): Promise<string | undefined> {
+    let entry: MemoryStoreEntry & { key: string };
+    try {
+      entry = JSON.parse(await fs.promises.readFile(this.getFile(key), 'utf8'));
+    } catch (error) {
+      // Missing files are misses; a file being replaced may be read partially
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' || error instanceof SyntaxError) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    if (entry.key !== key) {
+      return undefined;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, options?: KeyValueCacheSetOptions): Promise<void> {
+    const file = this.getFile(key);
+    const temp = `${file}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    const entry = { key, value, expiresAt: CacheSerializer.getExpiry(options) };
+
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    // Written to a temporary file first, so readers never see partial entries
+    await fs.promises.writeFile(temp, JSON.stringify(entry), 'utf8');
+    await fs.promises.rename(temp, file);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.getFile(key));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private getFile(key: string): string {
+    return path.join(this.directory, `${crypto.createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
+
+/**
+ * Serializes cache entries to strings. Dates are preserved, and compressed
+ * entries are gzipped and base64-encoded
+ */
+export class CacheSerializer {
+  private static readonly COMPRESSED = 'gz:';
+
+  static serialize(value: any, compression = false): string {
+    const json = JSON.stringify(value, function (this: any, key: string, item: any) {
+      // Dates are converted by toJSON before reaching the replacer
+      return this[key] instanceof Date ? { $date: this[key].getTime() } : item;
+    });
+    return compression
+      ? this.COMPRESSED + zlib.gzipSync(json).toString('base64')
+      : json;
+  }
+
+  static deserialize<T = any>(data: string): T {
+    const json = data.startsWith(this.COMPRESSED)
+      ? zlib.gunzipSync(Buffer.from(data.slice(this.COMPRESSED.length), 'base64')).toString('utf8')
+      : data;
+    return JSON.parse(json, (_key, item) =>
+      item && typeof item === 'object' && typeof item.$date === 'number' && Object.keys(item).length === 1
+        ? new Date(item.$date)
+        : item
+    );
+  }
+
+  /**
+   * Expiry time of a store entry from KeyValueCache TTL options (in seconds)
+   */
+  static getExpiry(options?: KeyValueCacheSetOptions): number | undefined {
+    return options?.ttl ? Date.now() + options.ttl * 1000 : undefined;
+  }
+}
+
+/**
+ * Reads and writes the entries of an in-memory cache to a CacheStore. Writes
+ * happen in the background, so synchronous caches can be backed by async stores
+ */
+export class CacheStoreClient<T> {
+  private pendingLoads = new Map<string, Promise<StoredEntry<T> | undefined>>();
+  private pendingWrites = new Set<Promise<void>>();
+
+  constructor(private options: CacheStoreOptions) {}
+
+  /**
+   * Load an entry from the store; concurrent loads of a key are deduplicated
+   */
+  load(key: string): Promise<StoredEntry<T> | undefined> {
+    let pending = this.pendingLoads.get(key);
+    if (!pending) {
+      pending = this.read(key).finally(() => this.pendingLoads.delete(key));
+      this.pendingLoads.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Write an entry to the store in the background. The entry is serialized
+   * right away, so later changes to the value are not written
+   */
+  write(key: string, value: T, expiresAt?: number): void {
+    const { ttl, compression } = this.options;
+    const seconds = ttl !== undefined ? Math.max(1, Math.ceil(ttl / 1000)) : undefined;
+    let data: string;
+    try {
+      data = CacheSerializer.serialize({ value, expiresAt }, compression);
+    } catch (error) {
+      this.options.onError?.(error);
+      return;
+    }
+    this.track(() => this.options.store.set(
+      this.getKey(key),
+      data,
+      seconds !== undefined ? { ttl: seconds } : undefined
+    ));
+  }
+
+  /**
+   * Delete an entry from the store in the background
+   */
+  delete(key: string): void {
+    this.track(async () => {
+      await this.options.store.delete(this.getKey(key));
+    });
+  }
+
+  /**
+   * Wait for pending writes and deletes
+   */
+  async flush(): Promise<void> {
+    while (this.pendingWrites.size > 0) {
+      await Promise.all(Array.from(this.pendingWrites));
+    }
+  }
+
+  private async read(key: string): Promise<StoredEntry<T> | undefined> {
+    try {
+      const data = await this.options.store.get(this.getKey(key));
+      if (data === undefined) {
+        return undefined;
+      }
+      const entry = CacheSerializer.deserialize<StoredEntry<T>>(data);
+      return entry.expiresAt !== undefined && entry.expiresAt <= Date.now() ? undefined : entry;
+    } catch (error) {
+      this.options.onError?.(error);
+      return undefined;
+    }
+  }
+
+  private track(operation: () => Promise<void>): void {
+    const pending: Promise<void> = Promise.resolve()
+      .then(operation)
+      .catch((error) => this.options.onError?.(error))
+      .finally(() => this.pendingWrites.delete(pending));
+    this.pendingWrites.add(pending);
+  }
+
+  private getKey(key: string): string {
+    return (this.options.prefix || '') + key;
+  }
+}
@@ -0,0 +1,116 @@
+import { DEFAULT_PATHS } from './constants';
+
+// Relay-style connection support
+
+/**
+ * Options for unwrapping connection selections
+ */
+export interface ConnectionOptions {
+  cursorField?: string;                 // Prisma field used as cursor (default 'id')
+  decodeCursor?: (cursor: any) => any;  // Decode opaque cursors into cursor field values
+  paths?: string[][];                   // Paths to the node selection (default edges.node and collection)
+}
+
+/**
+ * Parts of a connection that were requested besides the nodes
+ */
+export interface ConnectionInfo {
+  totalCount: boolean;             // A count query is needed
+  pageInfo: boolean;               // Page boundaries need to be computed
+  cursor: boolean;                 // Edge cursors were requested
+}
+
+/**
+ * Relay pagination arguments
+ */
+export interface ConnectionArgs {
+  first?: number | null;
+  after?: any;
+  last?: number | null;
+  before?: any;
+}
+
+type Include = Record<string, boolean | SelectInclude>;
+interface SelectInclude {
+  select?: Include;
+  include?: Include;
+  [arg: string]: any;
+}
+
+/**
+ * Converts Relay connection selections and arguments into Prisma equivalents
+ */
+export class ConnectionHandler {
+  /**
+   * Unwrap the node selection out of a connection selection
+   */
+  static unwrap(
+    selections: Include,
+    options: ConnectionOptions = {}
+  ): { selections: Include; connection: ConnectionInfo } {
+    const paths = options.paths || [DEFAULT_PATHS.Connection, DEFAULT_PATHS.Pagination];
+    let nodes: Include = {};
+
+    for (const path of paths) {
+      const nodeSelections = this.getNested(selections, path);
+      if (nodeSelections) {
+        nodes = { ...nodes, ...nodeSelections };
+      }
+    }
+
+    const edges = this.getNested(selections, [DEFAULT_PATHS.Connection[0]]);
+    const cursor = !!edges && 'cursor' in edges;
+    if (cursor) {
+      // Cursors are built from the cursor field, so it must be fetched
+      nodes[options.cursorField || 'id'] = true;
+    }
+
+    return {
+      selections: nodes,
+      connection: {
+        totalCount: 'totalCount' in selections,
+        pageInfo: 'pageInfo' in selections,
+        cursor
+      }
+    };
+  }
+
+  /**
+   * Translate first/after/last/before into Prisma take/cursor/skip
+   */
+  static toPrismaArgs(args: ConnectionArgs, options: ConnectionOptions = {}): Record<string, any> {
+    const prismaArgs: Record<string, any> = {};
+    const cursorField = options.cursorField || 'id';
+    const decode = options.decodeCursor || ((cursor: any) => cursor);
+
+    if (typeof args.first === 'number') {
+      prismaArgs.take = args.first;
+    }
+    if (typeof args.last === 'number') {
+      // A negative take pages backwards from the cursor (or from the end)
+      prismaArgs.take = -args.last;
+    }
+
+    // Forward pagination starts after `after`, backward pagination ends before `before`
+    const cursor = typeof args.last === 'number' ? args.before : args.after;
+    if (cursor != null) {
+      prismaArgs.cursor = { [cursorField]: decode(cursor) };
+      // Skip the cursor row itself
+      prismaArgs.skip = 1;
+    }
+
+    return prismaArgs;
+  }
+
+  private static getNested(selections: Include, path: string[]): Include | undefined {
+    let current: Include | undefined = selections;
+    for (const key of path) {
+      const value: boolean | SelectInclude | undefined = current?.[key];
+      if (!value || typeof value !== 'object') {
+        return undefined;
+      }
+      current = value.select || value.include;
+    }
+    return current;
+  }
+}
@@ -1,3 +1,10 @@
 export const DEFAULT_PATHS = {
   Pagination: ['collection'],
+  Connection: ['edges', 'node'],
 };
+
+// Arguments passed through to Prisma as-is
+export const PRISMA_ARGS = ['take', 'skip', 'orderBy', 'where', 'cursor', 'distinct'];
+
+// Arguments that select a page of a relation
+export const PAGING_ARGS = ['take', 'skip', 'cursor'];
@@ -0,0 +1,431 @@
+import type { GraphQLResolveInfo } from 'types';
+import { GQLPrismaSelect, GQLPrismaSelectOptions } from './GQLPrismaSelect';
+import { PrismaQueryBuilder } from './queryBuilder';
+import { KeyInjector } from './keys';
+
+// Batched loading
+
+type Include = Record<string, boolean | SelectInclude>;
+interface SelectInclude {
+  select?: Include;
+  include?: Include;
+  [arg: string]: any;
+}
+
+/**
+ * Prisma model delegate, e.g. `prisma.user`
+ */
+export interface PrismaDelegate {
+  findMany(args: Record<string, any>): Promise<any[]>;
+}
+
+export interface PrismaDataLoaderOptions {
+  key?: string;                    // Unique scalar field the loader is keyed by (default 'id')
+  maxBatchSize?: number;           // Max keys per findMany
+  selector?: GQLPrismaSelectOptions; // Options of the selectors built from each load's info
+}
+
+export interface PrismaRelationLoaderOptions {
+  foreignKey: string;              // Field of the child model referencing the parent, e.g. 'postId'
+  maxBatchSize?: number;           // Max parent keys per findMany
+  selector?: GQLPrismaSelectOptions; // Options of the selectors built from each load's info
+}
+
+/**
+ * Selection requested by one or more loads
+ */
+export interface BatchSelection {
+  select?: Include;
+  include?: Include;
+}
+
+interface PendingLoad<TResult> {
+  key: any;
+  selection: BatchSelection;
+  args: Record<string, any>;
+  resolve: (value: TResult) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Loads sharing a query: same arguments and mergeable selections
+ */
+export interface Batch<TResult> {
+  selection: BatchSelection;
+  args: Record<string, any>;
+  loads: PendingLoad<TResult>[];
+}
+
+const RELATION_SELECTIONS = ['select', 'include'];
+
+/**
+ * Collects the loads of a tick and runs one query per batch of loads with the
+ * same arguments and mergeable selections
+ */
+export abstract class BatchLoader<TResult> {
+  private queue: PendingLoad<TResult>[] = [];
+
+  constructor(private maxBatchSize?: number) {}
+
+  /**
+   * Arguments of a load's query, from the arguments of its selector
+   */
+  protected abstract getArgs(args: Record<string, any>): Record<string, any>;
+
+  /**
+   * Run the query of a batch and settle its loads
+   */
+  protected abstract loadBatch(batch: Batch<TResult>, keys: any[]): Promise<void>;
+
+  protected enqueue(key: any, info: GraphQLResolveInfo | undefined, options?: GQLPrismaSelectOptions): Promise<TResult> {
+    let selection: BatchSelection = {};
+    let args: Record<string, any> = {};
+    if (info) {
+      // Errors of the selector, e.g. authorization errors, reject the load
+      try {
+        const selector = new GQLPrismaSelect(info, options);
+        selection = { select: selector.select, include: selector.include };
+        args = this.getArgs(selector.args);
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      if (this.queue.length === 0) {
+        this.scheduleDispatch();
+      }
+      this.queue.push({ key, selection, args, resolve, reject });
+    });
+  }
+
+  /**
+   * Merge two selections into one selecting the fields of both; null if they
+   * can't be merged because relations are requested with different arguments
+   */
+  static mergeSelections(a: BatchSelection, b: BatchSelection): BatchSelection | null {
+    if (a.select && b.select) {
+      const merged = this.mergeTrees(a.select, b.select);
+      return merged && { select: merged };
+    }
+
+    // Includes and empty selections select every scalar, which covers selected scalars
+    const merged = this.mergeTrees(this.toInclude(a), this.toInclude(b));
+    if (!merged) {
+      return null;
+    }
+    return Object.keys(merged).length > 0 ? { include: merged } : {};
+  }
+
+  /**
+   * Add scalar fields to a selection, e.g. the fields rows are mapped back by
+   */
+  protected static withFields(selection: BatchSelection, fields: string[]): BatchSelection {
+    if (selection.select) {
+      const select: Include = { ...selection.select };
+      fields.forEach((field) => { select[field] = true; });
+      return { select };
+    }
+    return selection.include ? { include: selection.include } : {};
+  }
+
+  /**
+   * Remove the fields added by `withFields` that a load did not select
+   */
+  protected static withoutFields<T>(data: T, selection: BatchSelection, fields: string[]): T {
+    const select = selection.select;
+    const added = select ? fields.filter((field) => !select[field]) : [];
+    return added.length > 0 ? KeyInjector.strip(data, added) : data;
+  }
+
+  private scheduleDispatch(): void {
+    // Dispatched after the current promise jobs, so that resolvers of sibling
+    // fields and list items can enqueue their loads first
+    Promise.resolve().then(() => process.nextTick(() => this.dispatch()));
+  }
+
+  private dispatch(): void {
+    const loads = this.queue;
+    this.queue = [];
+
+    const batches: Batch<TResult>[] = [];
+    for (const load of loads) {
+      // Arguments are compared in property order, so reordered arguments are batched separately
+      const args = JSON.stringify(load.args);
+      let added = false;
+      for (const batch of batches) {
+        if (JSON.stringify(batch.args) !== args) {
+          continue;
+        }
+        const selection = BatchLoader.mergeSelections(batch.selection, load.selection);
+        if (selection) {
+          batch.selection = selection;
+          batch.loads.push(load);
+          added = true;
+          break;
+        }
+      }
+      if (!added) {
+        batches.push({ selection: load.selection, args: load.args, loads: [load] });
+      }
+    }
+
+    for (const batch of batches) {
+      const keys = Array.from(new Set(batch.loads.map((load) => load.key)));
+      const size = this.maxBatchSize && this.maxBatchSize > 0 ? this.maxBatchSize : keys.length;
+      for (let i = 0; i < keys.length; i += size) {
+        const chunk = new Set(keys.slice(i, i + size));
+        const loads = batch.loads.filter((load) => chunk.has(load.key));
+        this.loadBatch({ ...batch, loads }, Array.from(chunk)).catch((error) => {
+          loads.forEach((load) => load.reject(error));
+        });
+      }
+    }
+  }
+
+  private static toInclude(selection: BatchSelection): Include {
+    if (selection.include) {
+      return selection.include;
+    }
+
+    const include: Include = {};
+    for (const [field, value] of Object.entries(selection.select || {})) {
+      // Selected relations are objects; `true` entries are scalars
+      if (typeof value === 'object') {
+        include[field] = value;
+      }
+    }
+    return include;
+  }
+
+  private static mergeTrees(a: Include, b: Include): Include | null {
+    const result: Include = { ...a };
+    for (const [field, value] of Object.entries(b)) {
+      if (!(field in result)) {
+        result[field] = value;
+        continue;
+      }
+      const merged = this.mergeValues(result[field], value);
+      if (merged === null) {
+        return null;
+      }
+      result[field] = merged;
+    }
+    return result;
+  }
+
+  private static mergeValues(
+    a: boolean | SelectInclude,
+    b: boolean | SelectInclude
+  ): boolean | SelectInclude | null {
+    if (typeof a !== 'object' || typeof b !== 'object') {
+      if (typeof a !== 'object' && typeof b !== 'object') {
+        return a || b;
+      }
+      // `true` selects a relation's scalars without arguments
+      const relation = (typeof a === 'object' ? a : b) as SelectInclude;
+      if (Object.keys(relation).some((key) => !RELATION_SELECTIONS.includes(key))) {
+        return null;
+      }
+      const merged = this.mergeSelections({}, relation)!;
+      return Object.keys(merged).length > 0 ? merged : true;
+    }
+
+    // Relations are only merged when requested with the same arguments;
+    // properties are compared in order, so reordered arguments are batched separately
+    const { select: selectA, include: includeA, ...argsA } = a;
+    const { select: selectB, include: includeB, ...argsB } = b;
+    if (JSON.stringify(argsA) !== JSON.stringify(argsB)) {
+      return null;
+    }
+
+    const merged = this.mergeSelections(
+      { select: selectA, include: includeA },
+      { select: selectB, include: includeB }
+    );
+    return merged && { ...argsA, ...merged };
+  }
+}
+
+/**
+ * Per-request loader batching the loads of a tick into one `findMany` per
+ * compatible selection, e.g. for `Post.author` resolvers:
+ * `loaders.user.load(post.authorId, info)`. Loads are not cached, as each
+ * may request other fields
+ */
+export class PrismaDataLoader<TValue = any, TKey = any> extends BatchLoader<TValue | null> {
+  private readonly key: string;
+
+  constructor(
+    private delegate: PrismaDelegate,
+    private options: PrismaDataLoaderOptions = {}
+  ) {
+    super(options.maxBatchSize);
+    this.key = options.key || 'id';
+  }
+
+  /**
+   * Load the row of a key with the fields requested by the resolver, or null
+   * if it does not exist
+   */
+  load(key: TKey, info?: GraphQLResolveInfo): Promise<TValue | null> {
+    return this.enqueue(key, info, this.options.selector);
+  }
+
+  /**
+   * Load the rows of several keys, in the order of the keys
+   */
+  loadMany(keys: TKey[], info?: GraphQLResolveInfo): Promise<(TValue | null)[]> {
+    return Promise.all(keys.map((key) => this.load(key, info)));
+  }
+
+  protected getArgs(args: Record<string, any>): Record<string, any> {
+    // Injected filters (e.g. tenant policies) restrict the batch
+    return args.where ? { where: args.where } : {};
+  }
+
+  protected async loadBatch(batch: Batch<TValue | null>, keys: any[]): Promise<void> {
+    const byKey = { [this.key]: { in: keys } };
+    const where = batch.args.where ? PrismaQueryBuilder.mergeWhere(byKey, batch.args.where) : byKey;
+    const rows = await this.delegate.findMany({
+      where,
+      ...BatchLoader.withFields(batch.selection, [this.key])
+    });
+
+    const rowsByKey = new Map<any, any>();
+    for (const row of rows) {
+      rowsByKey.set(row[this.key], row);
+    }
+    batch.loads.forEach((load) => load.resolve(
+      BatchLoader.withoutFields(rowsByKey.get(load.key) ?? null, load.selection, [this.key])
+    ));
+  }
+}
+
+/**
+ * Per-request loader of to-many relations, e.g. for `Post.comments` resolvers:
+ * `loaders.postComments.load(post.id, info)`. The children of all parents of a
+ * tick are loaded with one `findMany` filtered by the foreign key. `take`,
+ * `skip`, `cursor` and `distinct` apply to each parent's children, in memory
+ */
+export class PrismaRelationLoader<TValue = any, TKey = any> extends BatchLoader<TValue[]> {
+  constructor(
+    private delegate: PrismaDelegate,
+    private options: PrismaRelationLoaderOptions
+  ) {
+    super(options.maxBatchSize);
+  }
+
+  /**
+   * Load the children of a parent, with the selection and arguments of the resolver's field
+   */
+  load(parentKey: TKey, info?: GraphQLResolveInfo): Promise<TValue[]> {
+    return this.enqueue(parentKey, info, this.options.selector);
+  }
+
+  /**
+   * Load the children of several parents, in the order of the parents
+   */
+  loadMany(parentKeys: TKey[], info?: GraphQLResolveInfo): Promise<TValue[][]> {
+    return Promise.all(parentKeys.map((key) => this.load(key, info)));
+  }
+
+  protected getArgs(args: Record<string, any>): Record<string, any> {
+    return args;
+  }
+
+  protected async loadBatch(batch: Batch<TValue[]>, keys: any[]): Promise<void> {
+    const { foreignKey } = this.options;
+    const { where, take, skip, cursor, distinct, ...args } = batch.args;
+
+    // Fields needed to group and page the rows of each parent
+    const fields = [foreignKey, ...this.getCursorFields(cursor), ...PrismaRelationLoader.toList(distinct)];
+    const byParent = { [foreignKey]: { in: keys } };
+    const rows = await this.delegate.findMany({
+      ...args,
+      where: where ? PrismaQueryBuilder.mergeWhere(byParent, where) : byParent,
+      ...BatchLoader.withFields(batch.selection, fields)
+    });
+
+    const rowsByParent = new Map<any, any[]>();
+    for (const row of rows) {
+      const parentRows = rowsByParent.get(row[foreignKey]);
+      if (parentRows) {
+        parentRows.push(row);
+      } else {
+        rowsByParent.set(row[foreignKey], [row]);
+      }
+    }
+
+    batch.loads.forEach((load) => load.resolve(BatchLoader.withoutFields(
+      PrismaRelationLoader.paginate(rowsByParent.get(load.key) || [], { take, skip, cursor, distinct }),
+      load.selection,
+      fields
+    )));
+  }
+
+  /**
+   * Apply `take`, `skip`, `cursor` and `distinct` to the rows of one parent, as
+   * Prisma would when querying them separately
+   */
+  static paginate<T>(rows: T[], args: Record<string, any>): T[] {
+    const { take, skip = 0, cursor, distinct } = args;
+
+    let result = rows;
+    if (distinct) {
+      const fields = this.toList(distinct);
+      const seen = new Set<string>();
+      result = result.filter((row: any) => {
+        const value = JSON.stringify(fields.map((field) => row[field]));
+        return seen.has(value) ? false : (seen.add(value), true);
+      });
+    }
+
+    let index: number | undefined;
+    if (cursor) {
+      index = result.findIndex((row) => this.matchesCursor(row, cursor));
+      // Prisma returns no rows for a cursor outside the results
+      if (index < 0) {
+        return [];
+      }
+    }
+
+    // A negative take pages backwards from the cursor, or from the end
+    if (typeof take === 'number' && take < 0) {
+      const end = (index !== undefined ? index + 1 : result.length) - skip;
+      return result.slice(Math.max(0, end + take), Math.max(0, end));
+    }
+    const start = (index ?? 0) + skip;
+    return result.slice(start, typeof take === 'number' ? start + take : undefined);
+  }
+
+  private static matchesCursor(row: any, cursor: Record<string, any>): boolean {
+    return Object.entries(cursor).every(([field, value]) =>
+      // Compound unique keys hold the values of several fields
+      value && typeof value === 'object' && !(value instanceof Date)
+        ? Object.entries(value).every(([key, item]) => this.equals(row[key], item))
+        : this.equals(row[field], value)
+    );
+  }
+
+  private static equals(a: any, b: any): boolean {
+    return a instanceof Date || b instanceof Date
+      ? new Date(a).getTime() === new Date(b).getTime()
+      : a === b;
+  }
+
+  private getCursorFields(cursor?: Record<string, any>): string[] {
+    if (!cursor) {
+      return [];
+    }
+    const fields: string[] = [];
+    for (const [field, value] of Object.entries(cursor)) {
+      fields.push(...(value && typeof value === 'object' && !(value instanceof Date) ? Object.keys(value) : [field]));
+    }
+    return fields;
+  }
+
+  private static toList(value?: string | string[]): string[] {
+    return value === undefined ? [] : Array.isArray(value) ? value : [value];
+  }
+}
@@ -0,0 +1,163 @@
+// Prisma DMMF integration
+
+/**
+ * Field of a Prisma model as described by `Prisma.dmmf.datamodel`
+ */
+export interface DMMFField {
+  name: string;
+  kind: 'scalar' | 'object' | 'enum' | 'unsupported';
+  type: string;                    // Scalar type, enum name or related model name
+  isList: boolean;
+  isId?: boolean;
+  isRequired?: boolean;
+  relationName?: string | null;
+  relationFromFields?: readonly string[];
+  relationToFields?: readonly string[];
+}
+
+/**
+ * Prisma model (or composite type) as described by `Prisma.dmmf.datamodel`
+ */
+export interface DMMFModel {
+  name: string;
+  fields: readonly DMMFField[];
+  primaryKey?: { fields: readonly string[] } | null;
+}
+
+/**
+ * Subset of `Prisma.dmmf.datamodel` used by the selector
+ */
+export interface DMMFDatamodel {
+  models: readonly DMMFModel[];
+  types?: readonly DMMFModel[];    // Composite types (MongoDB)
+}
+
+type Include = Record<string, boolean | SelectInclude>;
+interface SelectInclude {
+  select?: Include;
+  include?: Include;
+  [arg: string]: any;
+}
+
+/**
+ * Indexed view over the Prisma datamodel that knows each model's scalar
+ * fields and relations, used to build valid `select` trees
+ */
+export class PrismaDatamodel {
+  private models = new Map<string, DMMFModel>();
+  private fields = new Map<string, Map<string, DMMFField>>();
+
+  constructor(datamodel: DMMFDatamodel) {
+    for (const model of [...datamodel.models, ...(datamodel.types || [])]) {
+      this.models.set(model.name, model);
+      this.fields.set(model.name, new Map(model.fields.map((field) => [field.name, field])));
+    }
+  }
+
+  /**
+   * Check if a model (or composite type) exists
+   */
+  hasModel(name: string): boolean {
+    return this.models.has(name);
+  }
+
+  /**
+   * Get a model by name
+   */
+  getModel(name: string): DMMFModel | undefined {
+    return this.models.get(name);
+  }
+
+  /**
+   * Get a field of a model
+   */
+  getField(model: string, field: string): DMMFField | undefined {
+    return this.fields.get(model)?.get(field);
+  }
+
+  /**
+   * Check if a field of a model is a relation (or composite type)
+   */
+  isRelation(model: string, field: string): boolean {
+    return this.getField(model, field)?.kind === 'object';
+  }
+
+  /**
+   * Get the model a relation field points to
+   */
+  getRelationModel(model: string, field: string): string | undefined {
+    const definition = this.getField(model, field);
+    return definition?.kind === 'object' ? definition.type : undefined;
+  }
+
+  /**
+   * Resolve the model reached by following a path of relation fields
+   */
+  resolvePath(model: string, path: readonly string[]): string | undefined {
+    let current: string | undefined = model;
+    for (const segment of path) {
+      if (!current) {
+        return undefined;
+      }
+      current = this.getRelationModel(current, segment);
+    }
+    return current;
+  }
+
+  /**
+   * Build a `select` tree for a model from selections, keeping scalar fields,
+   * descending into relations with their target model and skipping fields
+   * unknown to Prisma
+   */
+  buildSelect(model: string, selections: Include): Include {
+    const result: Include = {};
+
+    for (const [key, value] of Object.entries(selections)) {
+      if (key === '_count') {
+        const count = this.buildCountSelect(model, value);
+        if (count) {
+          result[key] = count;
+        }
+        continue;
+      }
+
+      const field = this.getField(model, key);
+      if (!field || field.kind === 'unsupported') {
+        continue;
+      }
+
+      if (field.kind !== 'object' || typeof value !== 'object' || value === null) {
+        result[key] = true;
+        continue;
+      }
+
+      const { select, include, ...args } = value;
+      const nested = this.buildSelect(field.type, select || include || {});
+      if (Object.keys(nested).length > 0) {
+        result[key] = { select: nested, ...args };
+      } else {
+        result[key] = Object.keys(args).length > 0 ? args : true;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Keep only relations of the model inside a `_count` selection
+   */
+  private buildCountSelect(model: string, value: boolean | SelectInclude): boolean | SelectInclude | undefined {
+    if (typeof value !== 'object' || value === null) {
+      return value || undefined;
+    }
+
+    const counts: Include = {};
+    for (const [relation, count] of Object.entries(value.select || value.include || {})) {
+      if (this.isRelation(model, relation)) {
+        counts[relation] = count;
+      }
+    }
+
+    return Object.keys(counts).length > 0 ? { select: counts } : undefined;
+  }
+}
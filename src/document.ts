@@ -0,0 +1,167 @@
+import { Kind } from 'graphql/language/kinds';
+import { getNamedType, isInterfaceType, isObjectType, parse } from 'graphql';
+import type {
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  GraphQLField,
+  GraphQLNamedType,
+  GraphQLOutputType,
+  GraphQLSchema,
+  OperationDefinitionNode,
+  SelectionNode
+} from 'graphql';
+import type { GraphQLResolveInfo } from 'types';
+import { GQLPrismaSelectError } from './errors';
+
+// Selections from GraphQL documents, without a resolver
+
+/**
+ * Options for building selections from a query string or DocumentNode
+ */
+export interface DocumentOptions {
+  operationName?: string;           // Required when the document has several operations
+  variables?: Record<string, any>;  // Variable values of the operation
+  path?: string | string[];         // Response path to the field (default: the operation's first root field)
+  schema?: GraphQLSchema;           // Resolves field types for type-aware options (computedFields, countFields...)
+}
+
+interface CollectedFieldNodes {
+  nodes: FieldNode[];
+  typeName?: string;               // GraphQL type the field was collected under
+}
+
+/**
+ * Builds the parts of a GraphQLResolveInfo the selector relies on from a
+ * GraphQL document, as if a resolver of the field at the path was called
+ */
+export class DocumentResolveInfo {
+  static build(query: string | DocumentNode, options: DocumentOptions = {}): GraphQLResolveInfo {
+    const document = typeof query === 'string' ? parse(query) : query;
+    const operation = this.getOperation(document, options.operationName);
+    const fragments: Record<string, FragmentDefinitionNode> = {};
+    for (const definition of document.definitions) {
+      if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+        fragments[definition.name.value] = definition;
+      }
+    }
+
+    const path = this.toPath(options.path);
+    if (path.length === 0) {
+      const [first] = this.collectFieldNodes(operation.selectionSet.selections, undefined, fragments).values();
+      if (!first) {
+        throw new GQLPrismaSelectError('Operation has no fields');
+      }
+      path.push(first.nodes[0].alias?.value || first.nodes[0].name.value);
+    }
+
+    let selections: readonly SelectionNode[] = operation.selectionSet.selections;
+    let type: GraphQLNamedType | undefined = options.schema?.getRootType(operation.operation) || undefined;
+    let parentType: GraphQLNamedType | undefined;
+    let returnType: GraphQLOutputType | undefined;
+    let fieldNodes: FieldNode[] = [];
+    let responsePath: GraphQLResolveInfo['path'] | undefined;
+
+    for (const key of path) {
+      const field: CollectedFieldNodes | undefined = this.collectFieldNodes(selections, type?.name, fragments).get(key);
+      if (!field) {
+        throw new GQLPrismaSelectError(`Field "${path.join('.')}" was not found in the operation`);
+      }
+
+      // Fields selected through a type condition belong to that type
+      parentType = field.typeName ? options.schema?.getType(field.typeName) || undefined : undefined;
+      const definition: GraphQLField<any, any> | undefined = (isObjectType(parentType) || isInterfaceType(parentType))
+        ? parentType.getFields()[field.nodes[0].name.value]
+        : undefined;
+
+      fieldNodes = field.nodes;
+      returnType = definition?.type;
+      responsePath = { prev: responsePath, key, typename: parentType?.name };
+      selections = fieldNodes.flatMap((node) => node.selectionSet?.selections || []);
+      type = returnType ? getNamedType(returnType) : undefined;
+    }
+
+    return {
+      fieldName: fieldNodes[0].name.value,
+      fieldNodes,
+      returnType,
+      parentType,
+      path: responsePath,
+      schema: options.schema,
+      fragments,
+      rootValue: undefined,
+      operation,
+      variableValues: options.variables || {}
+    } as unknown as GraphQLResolveInfo;
+  }
+
+  private static getOperation(document: DocumentNode, operationName?: string): OperationDefinitionNode {
+    const operations = document.definitions.filter(
+      (definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION
+    );
+
+    const operation = operationName
+      ? operations.find((definition) => definition.name?.value === operationName)
+      : operations.length === 1 ? operations[0] : undefined;
+    if (!operation) {
+      throw new GQLPrismaSelectError(
+        operationName
+          ? `Unknown operation "${operationName}"`
+          : 'An operation name is required when the document does not contain exactly one operation'
+      );
+    }
+    return operation;
+  }
+
+  /**
+   * Groups the fields of a selection set by response key, expanding inline
+   * fragments and fragment spreads
+   */
+  private static collectFieldNodes(
+    selections: readonly SelectionNode[],
+    typeName: string | undefined,
+    fragments: Record<string, FragmentDefinitionNode>,
+    collected: Map<string, CollectedFieldNodes> = new Map(),
+    visitedFragments: Set<string> = new Set()
+  ): Map<string, CollectedFieldNodes> {
+    for (const selection of selections) {
+      if (selection.kind === Kind.FIELD) {
+        const key = selection.alias?.value || selection.name.value;
+        const field = collected.get(key);
+        if (field) {
+          field.nodes.push(selection);
+        } else {
+          collected.set(key, { nodes: [selection], typeName });
+        }
+      } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+        this.collectFieldNodes(
+          selection.selectionSet.selections,
+          selection.typeCondition?.name.value || typeName,
+          fragments,
+          collected,
+          visitedFragments
+        );
+      } else if (!visitedFragments.has(selection.name.value)) {
+        visitedFragments.add(selection.name.value);
+        const fragment = fragments[selection.name.value];
+        if (fragment) {
+          this.collectFieldNodes(
+            fragment.selectionSet.selections,
+            fragment.typeCondition.name.value,
+            fragments,
+            collected,
+            visitedFragments
+          );
+        }
+      }
+    }
+    return collected;
+  }
+
+  private static toPath(path?: string | string[]): string[] {
+    if (!path) {
+      return [];
+    }
+    return typeof path === 'string' ? path.split('.') : [...path];
+  }
+}
@@ -0,0 +1,74 @@
+import type { ValidationError } from './types';
+
+// Errors raised while building selections
+
+/**
+ * Base class for errors raised by the selector
+ */
+export class GQLPrismaSelectError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * A field received an argument that is neither a Prisma argument nor mapped to one
+ */
+export class UnknownArgumentError extends GQLPrismaSelectError {
+  constructor(
+    public readonly argument: string,
+    public readonly field: string         // Field coordinate, e.g. 'User.posts'
+  ) {
+    super(`Unknown argument "${argument}" on field "${field}"`);
+  }
+}
+
+/**
+ * A selection exceeds one of the configured query limits
+ */
+export class QueryLimitError extends GQLPrismaSelectError {
+  constructor(
+    public readonly limit: 'depth' | 'relations' | 'cost',
+    public readonly value: number,
+    public readonly max: number,
+    public readonly path: string[]        // Field path where the limit was exceeded
+  ) {
+    super(`Query ${limit} ${value} exceeds the maximum of ${max} at "${path.join('.')}"`);
+  }
+}
+
+/**
+ * A pagination argument (take, skip or cursor) is malformed or out of bounds
+ */
+export class PaginationError extends GQLPrismaSelectError {
+  constructor(
+    public readonly argument: 'take' | 'skip' | 'cursor',
+    public readonly field: string,        // Field coordinate, e.g. 'User.posts'
+    reason: string
+  ) {
+    super(`Invalid ${argument} on field "${field}": ${reason}`);
+  }
+}
+
+/**
+ * An authorization rule denied access to a requested field
+ */
+export class ForbiddenFieldError extends GQLPrismaSelectError {
+  constructor(
+    public readonly field: string,        // Field coordinate, e.g. 'User.email'
+    public readonly path: string[]        // Response path of the field
+  ) {
+    super(`Not authorized to access field "${field}" at "${path.join('.')}"`);
+  }
+}
+
+/**
+ * A client-supplied `where` filter violates the where allowlist
+ */
+export class InvalidWhereError extends GQLPrismaSelectError {
+  constructor(public readonly errors: ValidationError[]) {
+    super(`Invalid where filter: ${errors.map((error) => `${error.path.join('.')}: ${error.message}`).join('; ')}`);
+  }
+}
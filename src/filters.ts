@@ -0,0 +1,143 @@
+import { PrismaDatamodel } from './dmmf';
+import { PrismaQueryBuilder } from './queryBuilder';
+import { GQLPrismaSelectError } from './errors';
+
+// Phase 2: Filter Integration
+
+/**
+ * Filtered fields of a Prisma model
+ */
+export interface ModelFilterPolicy {
+  tenantKey?: string;              // Field holding the tenant, filtered to the policy's tenantId
+  softDelete?: string;             // Field set when a row is deleted, filtered to null
+}
+
+/**
+ * Filters injected into the root `where` and every to-many relation
+ */
+export interface FilterPolicy {
+  models: Record<string, ModelFilterPolicy>;
+  tenantId?: any;                  // Current tenant, e.g. ctx.tenantId
+  includeDeleted?: boolean;        // Skip soft-delete filters
+  merge?: 'and' | 'replace';       // Combine client `where` args with the filters (default) or drop them
+}
+
+type Include = Record<string, boolean | SelectInclude>;
+interface SelectInclude {
+  select?: Include;
+  include?: Include;
+  [arg: string]: any;
+}
+
+/**
+ * Injects filter policies into Prisma arguments and select trees. Injected
+ * filters are always combined with AND, so client filters can only narrow them
+ */
+export class QueryFilters {
+  /**
+   * Get the filter of a model, if any
+   */
+  static getFilter(model: string, policy: FilterPolicy): Record<string, any> | undefined {
+    const modelPolicy = policy.models[model];
+    if (!modelPolicy) {
+      return undefined;
+    }
+
+    const filter: Record<string, any> = {};
+    if (modelPolicy.tenantKey) {
+      // An undefined filter value is ignored by Prisma, which would expose every tenant
+      if (policy.tenantId === undefined) {
+        throw new GQLPrismaSelectError(`No tenant id given for tenant-scoped model "${model}"`);
+      }
+      filter[modelPolicy.tenantKey] = policy.tenantId;
+    }
+    if (modelPolicy.softDelete && !policy.includeDeleted) {
+      filter[modelPolicy.softDelete] = null;
+    }
+
+    return Object.keys(filter).length > 0 ? filter : undefined;
+  }
+
+  /**
+   * Apply the filter of a model to a client `where`
+   */
+  static applyToWhere(
+    where: Record<string, any> | undefined,
+    model: string,
+    policy: FilterPolicy
+  ): Record<string, any> | undefined {
+    const filter = this.getFilter(model, policy);
+    if (!filter) {
+      return where;
+    }
+    if (!where || policy.merge === 'replace') {
+      return filter;
+    }
+    return PrismaQueryBuilder.mergeWhere(where, filter);
+  }
+
+  /**
+   * Apply filters to every to-many relation (and relation count) of a select tree
+   */
+  static applyToSelect(
+    selections: Include,
+    model: string,
+    datamodel: PrismaDatamodel,
+    policy: FilterPolicy
+  ): Include {
+    const result: Include = {};
+
+    for (const [key, value] of Object.entries(selections)) {
+      if (key === '_count') {
+        result[key] = this.applyToCount(value, model, datamodel, policy);
+        continue;
+      }
+
+      const field = datamodel.getField(model, key);
+      if (field?.kind !== 'object') {
+        result[key] = value;
+        continue;
+      }
+
+      const relation: SelectInclude = typeof value === 'object' ? { ...value } : {};
+      const nested = relation.select || relation.include;
+      if (nested) {
+        relation[relation.select ? 'select' : 'include'] = this.applyToSelect(nested, field.type, datamodel, policy);
+      }
+      // Prisma only filters to-many relations
+      if (field.isList) {
+        const where = this.applyToWhere(relation.where, field.type, policy);
+        if (where) {
+          relation.where = where;
+        }
+      }
+
+      result[key] = Object.keys(relation).length > 0 ? relation : value;
+    }
+
+    return result;
+  }
+
+  private static applyToCount(
+    value: boolean | SelectInclude,
+    model: string,
+    datamodel: PrismaDatamodel,
+    policy: FilterPolicy
+  ): boolean | SelectInclude {
+    if (typeof value !== 'object' || !value.select) {
+      return value;
+    }
+
+    const counts: Include = {};
+    for (const [relation, count] of Object.entries(value.select)) {
+      const relationModel = datamodel.getRelationModel(model, relation);
+      const where = relationModel && this.applyToWhere(
+        typeof count === 'object' ? count.where : undefined,
+        relationModel,
+        policy
+      );
+      counts[relation] = where ? { ...(typeof count === 'object' ? count : {}), where } : count;
+    }
+    return { ...value, select: counts };
+  }
+}
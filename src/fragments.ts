@@ -1,3 +1,5 @@
+import { CacheStore, CacheStoreClient } from './cacheStore';
+
 // Phase 7: Advanced Fragment Handling
 
 export interface FragmentDefinition {
@@ -83,7 +85,9 @@ export interface CacheConfig {
   ttl?: number;              // Time to live in milliseconds
   maxSize?: number;         // Maximum cache entries
   strategy?: 'LRU' | 'LFU' | 'TTL';
-  compression?: boolean;   // Compress cached data
+  compression?: boolean;   // Compress entries written to the store
+  store?: CacheStore;       // Shared storage, e.g. a FileSystemCacheStore or a Redis KeyValueCache
+  onStoreError?: (error: unknown) => void;
 }
 
 export interface FragmentOptions {
@@ -98,6 +102,7 @@ export interface FragmentOptions {
     enabled: boolean;
     trackUsage: boolean;
   };
+  registry?: FragmentRegistry;     // Registry tracked fragments are registered in (default FragmentRegistry.global)
 }
 
 type Include = Record<string, boolean | SelectInclude>;
@@ -107,16 +112,20 @@ interface SelectInclude {
 }
 
 /**
- * Fragment Registry for managing fragment definitions
+ * Fragment Registry for managing fragment definitions. Registries can be
+ * scoped to a request, a schema or the application; the static methods use
+ * the application-wide `FragmentRegistry.global`
  */
 export class FragmentRegistry {
-  private static fragments = new Map<string, FragmentDefinition>();
-  private static usageStats = new Map<string, { count: number; lastUsed: Date }>();
+  static readonly global = new FragmentRegistry();
+
+  private fragments = new Map<string, FragmentDefinition>();
+  private usageStats = new Map<string, { count: number; lastUsed: Date }>();
 
   /**
    * Register a fragment definition
    */
-  static register(fragment: FragmentDefinition): void {
+  register(fragment: FragmentDefinition): void {
     this.fragments.set(fragment.name, {
       ...fragment,
       metadata: {
@@ -132,27 +141,31 @@ export class FragmentRegistry {
   }
 
   /**
-   * Get a fragment definition by name
+   * Get a fragment definition by name, counting it as used
    */
-  static get(name: string): FragmentDefinition | null {
+  get(name: string): FragmentDefinition | null {
+    this.recordUsage(name);
+    return this.fragments.get(name) || null;
+  }
+
+  /**
+   * Count a use of a registered fragment
+   */
+  recordUsage(name: string): void {
     const fragment = this.fragments.get(name);
-    if (fragment) {
-      // Update usage stats
-      const stats = this.usageStats.get(name);
-      if (stats) {
-        stats.count++;
-        stats.lastUsed = new Date();
-        fragment.metadata.usageCount = stats.count;
-        fragment.metadata.lastUsed = stats.lastUsed;
-      }
+    const stats = this.usageStats.get(name);
+    if (fragment && stats) {
+      stats.count++;
+      stats.lastUsed = new Date();
+      fragment.metadata.usageCount = stats.count;
+      fragment.metadata.lastUsed = stats.lastUsed;
     }
-    return fragment || null;
   }
 
   /**
    * List fragments, optionally filtered by type
    */
-  static list(type?: string): FragmentDefinition[] {
+  list(type?: string): FragmentDefinition[] {
     const fragments = Array.from(this.fragments.values());
     if (type) {
       return fragments.filter(f => f.type === type);
@@ -163,7 +176,7 @@ export class FragmentRegistry {
   /**
    * Remove a fragment from the registry
    */
-  static unregister(name: string): void {
+  unregister(name: string): void {
     this.fragments.delete(name);
     this.usageStats.delete(name);
   }
@@ -171,7 +184,7 @@ export class FragmentRegistry {
   /**
    * Get usage statistics for all fragments
    */
-  static getUsageStats(): FragmentStats {
+  getUsageStats(): FragmentStats {
     const fragments = Array.from(this.fragments.values());
     const totalSize = fragments.reduce((sum, f) => sum + f.metadata.size, 0);
     const totalComplexity = fragments.reduce((sum, f) => sum + f.metadata.complexity, 0);
@@ -188,10 +201,32 @@ export class FragmentRegistry {
     };
   }
 
+  /**
+   * Add the fragments and usage of other registries, e.g. to report on
+   * request-scoped registries: `new FragmentRegistry().merge(...registries).getUsageStats()`
+   */
+  merge(...registries: FragmentRegistry[]): this {
+    for (const registry of registries) {
+      for (const [name, fragment] of registry.fragments) {
+        const other = registry.usageStats.get(name) || { count: 0, lastUsed: fragment.metadata.lastUsed };
+        const stats = this.usageStats.get(name);
+        const count = (stats?.count || 0) + other.count;
+        const lastUsed = stats && stats.lastUsed > other.lastUsed ? stats.lastUsed : other.lastUsed;
+
+        this.usageStats.set(name, { count, lastUsed });
+        this.fragments.set(name, {
+          ...(this.fragments.get(name) || fragment),
+          metadata: { ...(this.fragments.get(name) || fragment).metadata, usageCount: count, lastUsed }
+        });
+      }
+    }
+    return this;
+  }
+
   /**
    * Clear all fragments and stats
    */
-  static clear(): void {
+  clear(): void {
     this.fragments.clear();
     this.usageStats.clear();
   }
@@ -199,16 +234,50 @@ export class FragmentRegistry {
   /**
    * Check if a fragment exists
    */
-  static has(name: string): boolean {
+  has(name: string): boolean {
     return this.fragments.has(name);
   }
 
-/**
- * Get fragment count
- */
-static size(): number {
-  return this.fragments.size;
-}
+  /**
+   * Get fragment count
+   */
+  size(): number {
+    return this.fragments.size;
+  }
+
+  // Static methods use the global registry
+
+  static register(fragment: FragmentDefinition): void {
+    this.global.register(fragment);
+  }
+
+  static get(name: string): FragmentDefinition | null {
+    return this.global.get(name);
+  }
+
+  static list(type?: string): FragmentDefinition[] {
+    return this.global.list(type);
+  }
+
+  static unregister(name: string): void {
+    this.global.unregister(name);
+  }
+
+  static getUsageStats(): FragmentStats {
+    return this.global.getUsageStats();
+  }
+
+  static clear(): void {
+    this.global.clear();
+  }
+
+  static has(name: string): boolean {
+    return this.global.has(name);
+  }
+
+  static size(): number {
+    return this.global.size();
+  }
 }
 
 /**
@@ -592,7 +661,8 @@ private static calculateSize(selections: Include): number {
  */
 export class FragmentCache {
   private cache = new Map<string, FragmentCacheEntry>();
-  private config: Required<CacheConfig>;
+  private config: Required<Omit<CacheConfig, 'store' | 'onStoreError'>>;
+  private store?: CacheStoreClient<FragmentDefinition>;
 
   constructor(config: CacheConfig) {
     this.config = {
@@ -602,6 +672,15 @@ export class FragmentCache {
       strategy: config.strategy ?? 'LRU',
       compression: config.compression ?? false
     };
+    if (config.store) {
+      this.store = new CacheStoreClient({
+        store: config.store,
+        prefix: 'fragment:',
+        ttl: this.config.ttl,
+        compression: this.config.compression,
+        onError: config.onStoreError
+      });
+    }
   }
 
   /**
@@ -612,45 +691,50 @@ export class FragmentCache {
       return null;
     }
 
-    const entry = this.cache.get(key);
+    const entry = this.getEntry(key);
     if (!entry) {
+      // Loaded in the background for later lookups
+      this.store?.load(key).then((stored) => stored && this.restore(key, stored.value));
       return null;
     }
 
-    // Check TTL
-    if (Date.now() - entry.lastAccessed > this.config.ttl) {
-      this.cache.delete(key);
+    return entry.fragment;
+  }
+
+  /**
+   * Get a fragment from cache, waiting for the store on misses
+   */
+  async load(key: string): Promise<FragmentDefinition | null> {
+    if (!this.config.enabled) {
       return null;
     }
 
-    // Update access statistics
-    entry.lastAccessed = Date.now();
-    entry.accessCount++;
+    const entry = this.getEntry(key);
+    if (entry || !this.store) {
+      return entry?.fragment ?? null;
+    }
 
-    return entry.fragment;
+    const stored = await this.store.load(key);
+    return stored ? this.restore(key, stored.value) : null;
   }
 
   /**
-   * Set a fragment in cache
+   * Set a fragment in cache, writing it through to the store
    */
   set(key: string, fragment: FragmentDefinition): void {
     if (!this.config.enabled) {
       return;
     }
 
-    // Check cache size limit
-    if (this.cache.size >= this.config.maxSize) {
-      this.evictEntries();
-    }
-
-    const entry: FragmentCacheEntry = {
-      fragment,
-      lastAccessed: Date.now(),
-      accessCount: 1,
-      size: fragment.metadata.size
-    };
+    this.insert(key, fragment);
+    this.store?.write(key, fragment);
+  }
 
-    this.cache.set(key, entry);
+  /**
+   * Wait for pending store writes
+   */
+  async flush(): Promise<void> {
+    await this.store?.flush();
   }
 
   /**
@@ -665,11 +749,14 @@ export class FragmentCache {
       }
     }
 
-    keysToDelete.forEach(key => this.cache.delete(key));
+    keysToDelete.forEach(key => {
+      this.cache.delete(key);
+      this.store?.delete(key);
+    });
   }
 
   /**
-   * Clear all cache entries
+   * Clear all in-memory entries; store entries expire with their TTL
    */
   clear(): void {
     this.cache.clear();
@@ -755,6 +842,53 @@ export class FragmentCache {
     return this.hashString(content);
   }
 
+  private getEntry(key: string): FragmentCacheEntry | undefined {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    // Check TTL
+    if (Date.now() - entry.lastAccessed > this.config.ttl) {
+      this.cache.delete(key);
+      return undefined;
+    }
+
+    // Update access statistics
+    entry.lastAccessed = Date.now();
+    entry.accessCount++;
+
+    return entry;
+  }
+
+  private insert(key: string, fragment: FragmentDefinition): void {
+    // Check cache size limit
+    if (this.cache.size >= this.config.maxSize) {
+      this.evictEntries();
+    }
+
+    const entry: FragmentCacheEntry = {
+      fragment,
+      lastAccessed: Date.now(),
+      accessCount: 1,
+      size: fragment.metadata.size
+    };
+
+    this.cache.set(key, entry);
+  }
+
+  /**
+   * Add a fragment loaded from the store, unless it was set meanwhile
+   */
+  private restore(key: string, fragment: FragmentDefinition): FragmentDefinition {
+    const existing = this.cache.get(key);
+    if (existing) {
+      return existing.fragment;
+    }
+    this.insert(key, fragment);
+    return fragment;
+  }
+
   /**
    * Evict entries based on cache strategy
    */
@@ -0,0 +1,229 @@
+import { PrismaDatamodel } from './dmmf';
+import { GQLPrismaSelectError } from './errors';
+
+// Keys for field resolvers
+
+/**
+ * Keys of models, for selections built without a datamodel
+ */
+export interface KeyMap {
+  [model: string]: {
+    primaryKey?: string[];
+    relations?: Record<string, string[]>; // Fields a relation is loaded by, e.g. { author: ['authorId'] }
+  };
+}
+
+/**
+ * Fields selected for field resolvers
+ */
+export interface KeyOptions {
+  resolvers?: string[];            // Relations loaded by field resolvers, by coordinate ('Post.author') or field name
+  primaryKeys?: boolean;           // Select the primary key of every model in the selection (default true)
+  keyMap?: KeyMap;                 // Takes precedence over the datamodel
+}
+
+/**
+ * What is known about the selection keys are injected into
+ */
+export interface KeyContext {
+  datamodel?: PrismaDatamodel;
+  resolveType?: (typeName: string, fieldName: string) => string | undefined; // Type of a relation
+}
+
+type Include = Record<string, boolean | SelectInclude>;
+interface SelectInclude {
+  select?: Include;
+  include?: Include;
+  [arg: string]: any;
+}
+
+/**
+ * Selection with keys injected, and the injected fields
+ */
+export interface KeyedSelection {
+  selections: Include;
+  implicitFields: string[];        // Dotted paths of the added fields, to strip them from responses
+}
+
+/**
+ * Replaces relations loaded by field resolvers with the keys they are loaded
+ * by, and selects primary keys
+ */
+export class KeyInjector {
+  /**
+   * Inject keys into a select or include tree
+   * @param isSelect Whether the top level is a `select`, which lists its scalars
+   */
+  static apply(
+    selections: Include,
+    typeName: string | undefined,
+    options: KeyOptions,
+    context: KeyContext = {},
+    isSelect = true
+  ): KeyedSelection {
+    const implicitFields: string[] = [];
+    const result = this.injectKeys(selections, typeName, isSelect, [], options, context, implicitFields);
+    return { selections: result, implicitFields };
+  }
+
+  /**
+   * Remove implicitly selected fields from query results
+   */
+  static strip<T>(data: T, implicitFields: string[]): T {
+    const paths = implicitFields.map((field) => field.split('.'));
+    return this.stripPaths(data, paths);
+  }
+
+  /**
+   * Fields of a model that a relation is loaded by: the foreign key when the
+   * model holds it, otherwise the fields the other side references
+   */
+  static getRelationKeys(
+    typeName: string,
+    fieldName: string,
+    options: KeyOptions,
+    context: KeyContext
+  ): string[] {
+    const mapped = options.keyMap?.[typeName]?.relations?.[fieldName];
+    if (mapped) {
+      return mapped;
+    }
+
+    const { datamodel } = context;
+    const field = datamodel?.getField(typeName, fieldName);
+    if (!datamodel || field?.kind !== 'object') {
+      return [];
+    }
+    if (field.relationFromFields?.length) {
+      return [...field.relationFromFields];
+    }
+
+    const opposite = datamodel.getModel(field.type)?.fields.find((candidate) =>
+      candidate.relationName === field.relationName &&
+      candidate.type === typeName &&
+      candidate.relationFromFields?.length
+    );
+    return opposite?.relationToFields?.length
+      ? [...opposite.relationToFields]
+      : this.getPrimaryKey(typeName, options, context);
+  }
+
+  /**
+   * Primary key fields of a model
+   */
+  static getPrimaryKey(typeName: string, options: KeyOptions, context: KeyContext): string[] {
+    const mapped = options.keyMap?.[typeName]?.primaryKey;
+    if (mapped) {
+      return mapped;
+    }
+
+    const model = context.datamodel?.getModel(typeName);
+    if (!model) {
+      return [];
+    }
+    return model.primaryKey?.fields.length
+      ? [...model.primaryKey.fields]
+      : model.fields.filter((field) => field.isId).map((field) => field.name);
+  }
+
+  private static injectKeys(
+    selections: Include,
+    typeName: string | undefined,
+    isSelect: boolean,
+    path: string[],
+    options: KeyOptions,
+    context: KeyContext,
+    implicitFields: string[]
+  ): Include {
+    const result: Include = {};
+    const keys = new Set<string>();
+
+    for (const [key, value] of Object.entries(selections)) {
+      if (key !== '_count' && this.isResolvedSeparately(typeName, key, options)) {
+        const relationKeys = typeName ? this.getRelationKeys(typeName, key, options, context) : [];
+        // Include levels return every scalar, keys included
+        if (isSelect && relationKeys.length === 0) {
+          throw new GQLPrismaSelectError(
+            `Cannot determine the keys of relation "${typeName ? `${typeName}.${key}` : [...path, key].join('.')}"; ` +
+            'pass a datamodel or list them in keys.keyMap'
+          );
+        }
+        relationKeys.forEach((field) => keys.add(field));
+        continue;
+      }
+
+      const relationType = typeName && key !== '_count' ? this.getRelationType(typeName, key, context) : undefined;
+      if (typeof value === 'object' && key !== '_count' && (value.select || value.include)) {
+        const nested = this.injectKeys(
+          value.select || value.include!,
+          relationType,
+          !!value.select,
+          [...path, key],
+          options,
+          context,
+          implicitFields
+        );
+        const { select, include, ...args } = value;
+        if (select || Object.keys(nested).length > 0) {
+          result[key] = { ...args, [select ? 'select' : 'include']: nested };
+        } else {
+          // An empty include selects the scalars, as `true` does
+          result[key] = Object.keys(args).length > 0 ? args : true;
+        }
+      } else {
+        result[key] = value;
+      }
+    }
+
+    if (typeName && options.primaryKeys !== false) {
+      this.getPrimaryKey(typeName, options, context).forEach((field) => keys.add(field));
+    }
+
+    // Scalars of an include level are all selected already
+    if (isSelect) {
+      for (const field of keys) {
+        if (!(field in result)) {
+          result[field] = true;
+          implicitFields.push([...path, field].join('.'));
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private static isResolvedSeparately(typeName: string | undefined, fieldName: string, options: KeyOptions): boolean {
+    return !!options.resolvers?.some((resolver) =>
+      resolver === fieldName || (!!typeName && resolver === `${typeName}.${fieldName}`)
+    );
+  }
+
+  private static getRelationType(typeName: string, fieldName: string, context: KeyContext): string | undefined {
+    return context.datamodel?.getRelationModel(typeName, fieldName) ?? context.resolveType?.(typeName, fieldName);
+  }
+
+  private static stripPaths(data: any, paths: string[][]): any {
+    if (Array.isArray(data)) {
+      return data.map((item) => this.stripPaths(item, paths));
+    }
+    if (!data || typeof data !== 'object' || paths.length === 0) {
+      return data;
+    }
+
+    const result = { ...data };
+    const nested = new Map<string, string[][]>();
+    for (const [key, ...rest] of paths) {
+      if (rest.length === 0) {
+        delete result[key];
+      } else {
+        nested.set(key, [...(nested.get(key) || []), rest]);
+      }
+    }
+    for (const [key, rest] of nested) {
+      if (key in result) {
+        result[key] = this.stripPaths(result[key], rest);
+      }
+    }
+    return result;
+  }
+}
@@ -2,6 +2,7 @@ import { GraphQLResolveInfo } from 'types';
 import { TypedGQLPrismaSelect } from './typed/TypedGQLPrismaSelect';
 import { TypedQueryBuilder } from './typed/TypedQueryBuilder';
 import { TypedOptions, TypedQueryBuilderOptions, LibraryIntegration, NexusQueryFieldConfig } from './types';
+import { MutationPayload, MutationSelection } from './mutation';
 
 // Phase 8: Type-Safe Integration - Library Integration
 
@@ -37,20 +38,28 @@ export class NexusIntegration {
   }
 
   /**
-   * Create a typed mutation field for Nexus
+   * Create a typed mutation field for Nexus. The mutation receives the
+   * selection of the model in the payload, to pass to the Prisma write
    */
   static createMutationField<TModel extends string>(
     config: {
       type: string;
       args?: Record<string, any>;
-      mutation: (args: any, ctx: { prisma: any }, info: GraphQLResolveInfo) => Promise<any>;
+      mutation: (
+        args: any,
+        ctx: { prisma: any },
+        info: GraphQLResolveInfo,
+        selection: MutationSelection
+      ) => Promise<any>;
       model: TModel;
+      options?: TypedOptions<any, TModel>;
     }
   ): any {
     return {
       type: config.type,
       args: config.args,
-      resolve: config.mutation
+      resolve: (root: any, args: any, ctx: { prisma: any }, info: GraphQLResolveInfo) =>
+        config.mutation(args, ctx, info, createMutationSelection(config.model, info, config.options))
     };
   }
 
@@ -118,19 +127,22 @@ export class ApolloServerIntegration {
   }
 
   /**
-   * Create a typed mutation resolver
+   * Create a typed mutation resolver. The resolver receives the selection of
+   * the model in the payload, to pass to the Prisma write
    */
   static createMutationResolver<TModel extends string, TContext = any>(
     model: TModel,
     resolver: (
       args: any,
       context: TContext,
-      info: GraphQLResolveInfo
-    ) => Promise<any>
+      info: GraphQLResolveInfo,
+      selection: MutationSelection
+    ) => Promise<any>,
+    options?: TypedOptions<any, TModel>
   ): ResolverFunction<TContext> {
     return async (root, args, context, info) => {
       // Can add input validation here
-      return resolver(args, context, info);
+      return resolver(args, context, info, createMutationSelection(model, info, options));
     };
   }
 }
@@ -308,6 +320,8 @@ export class IntegrationUtils {
 
   /**
    * Create typed data loaders
+   * @deprecated Runs a query per load and does not order `loadMany` results;
+   * use a per-request PrismaDataLoader instead
    */
   static createDataLoader<TModel extends string, TKey, TValue>(
     model: TModel,
@@ -349,6 +363,30 @@ export type ResolverFunction<TContext = any> = (
   info: GraphQLResolveInfo
 ) => any;
 
+/**
+ * Selection of the model in a mutation payload. It is built when first read,
+ * so mutations that don't use it work with any payload type
+ */
+function createMutationSelection<TModel extends string>(
+  model: TModel,
+  info: GraphQLResolveInfo,
+  options: TypedOptions<any, TModel> = {}
+): MutationSelection {
+  let selection: MutationSelection | undefined;
+  const build = (): MutationSelection => {
+    if (!selection) {
+      const selector = new TypedGQLPrismaSelect<any, TModel>(info, { model, mutation: true, ...options });
+      selection = MutationPayload.toSelection(selector.select, selector.include);
+    }
+    return selection;
+  };
+
+  return Object.defineProperties({}, {
+    select: { enumerable: true, get: () => build().select },
+    include: { enumerable: true, get: () => build().include }
+  });
+}
+
 /**
  * Library integration registry
  */
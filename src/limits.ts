@@ -0,0 +1,173 @@
+import { PrismaDatamodel } from './dmmf';
+import { QueryLimitError } from './errors';
+
+// Query depth and complexity limits
+
+/**
+ * Cost model of a selection. Each field costs its own cost times the number of
+ * parent rows it is fetched for, which grows with the `take` of every relation
+ * on the way
+ */
+export interface CostOptions {
+  scalarCost?: number;             // Cost of a scalar field (default 0)
+  relationCost?: number;           // Cost of a relation (default 1)
+  fieldCosts?: Record<string, number>; // Per field, keyed by coordinate ('User.posts') or field name
+  defaultMultiplier?: number;      // Rows assumed for to-many relations without `take` (default 1)
+}
+
+/**
+ * Limits enforced on generated selections
+ */
+export interface QueryLimits {
+  maxDepth?: number;               // Max relation nesting depth
+  maxRelations?: number;           // Max number of relations in the selection
+  maxCost?: number;                // Max cost, see CostOptions
+  cost?: CostOptions;
+}
+
+/**
+ * Measured size of a selection
+ */
+export interface QueryComplexity {
+  depth: number;
+  relations: number;
+  cost: number;
+}
+
+/**
+ * What is known about the selection being measured
+ */
+export interface LimitContext {
+  args?: Record<string, any>;      // Root arguments; a root `take` multiplies the cost of every field
+  datamodel?: PrismaDatamodel;     // Tells to-one from to-many relations
+  model?: string;                  // Prisma model of the selection
+}
+
+type Include = Record<string, boolean | SelectInclude>;
+interface SelectInclude {
+  select?: Include;
+  include?: Include;
+  [arg: string]: any;
+}
+
+interface WalkContext {
+  limits: QueryLimits;
+  datamodel?: PrismaDatamodel;
+  complexity: QueryComplexity;
+  enforce: boolean;
+}
+
+/**
+ * Measures selections and enforces query limits on them
+ */
+export class QueryLimiter {
+  /**
+   * Measure the depth, relation count and cost of a selection
+   */
+  static analyze(
+    selections: Include,
+    limits: QueryLimits = {},
+    options: LimitContext = {}
+  ): QueryComplexity {
+    return this.walk(selections, limits, options, false);
+  }
+
+  /**
+   * Throw a QueryLimitError with the offending path when a selection exceeds a limit
+   */
+  static enforce(
+    selections: Include,
+    limits: QueryLimits,
+    options: LimitContext = {}
+  ): QueryComplexity {
+    return this.walk(selections, limits, options, true);
+  }
+
+  private static walk(
+    selections: Include,
+    limits: QueryLimits,
+    options: LimitContext,
+    enforce: boolean
+  ): QueryComplexity {
+    const context: WalkContext = {
+      limits,
+      datamodel: options.datamodel,
+      complexity: { depth: 0, relations: 0, cost: 0 },
+      enforce
+    };
+    const take = options.args?.take;
+    const multiplier = typeof take === 'number' ? Math.abs(take) : 1;
+
+    this.walkSelections(selections, options.model, [], multiplier, context);
+    return context.complexity;
+  }
+
+  private static walkSelections(
+    selections: Include,
+    model: string | undefined,
+    path: string[],
+    multiplier: number,
+    context: WalkContext
+  ): void {
+    const { limits, datamodel, complexity } = context;
+    const cost = limits.cost || {};
+
+    for (const [key, value] of Object.entries(selections)) {
+      const fieldPath = [...path, key];
+      const field = model ? datamodel?.getField(model, key) : undefined;
+      // Without a datamodel, only selections with sub-fields or arguments are known relations
+      const isRelation = key !== '_count' && (field ? field.kind === 'object' : typeof value === 'object');
+
+      const fieldCost = cost.fieldCosts?.[`${model}.${key}`] ??
+        cost.fieldCosts?.[key] ??
+        (isRelation ? cost.relationCost ?? 1 : cost.scalarCost ?? 0);
+      complexity.cost += fieldCost * multiplier;
+      this.check('cost', complexity.cost, limits.maxCost, fieldPath, context);
+
+      if (!isRelation) {
+        continue;
+      }
+
+      complexity.relations += 1;
+      this.check('relations', complexity.relations, limits.maxRelations, fieldPath, context);
+      complexity.depth = Math.max(complexity.depth, fieldPath.length);
+      this.check('depth', fieldPath.length, limits.maxDepth, fieldPath, context);
+
+      const relation = typeof value === 'object' ? value : {};
+      const nested = relation.select || relation.include;
+      if (nested) {
+        this.walkSelections(
+          nested,
+          field?.type,
+          fieldPath,
+          multiplier * this.getRowCount(relation, field?.isList, cost),
+          context
+        );
+      }
+    }
+  }
+
+  /**
+   * Rows a relation is expected to return
+   */
+  private static getRowCount(relation: SelectInclude, isList: boolean | undefined, cost: CostOptions): number {
+    if (isList === false) {
+      return 1;
+    }
+    return typeof relation.take === 'number'
+      ? Math.abs(relation.take)
+      : cost.defaultMultiplier ?? 1;
+  }
+
+  private static check(
+    limit: 'depth' | 'relations' | 'cost',
+    value: number,
+    max: number | undefined,
+    path: string[],
+    context: WalkContext
+  ): void {
+    if (context.enforce && max !== undefined && value > max) {
+      throw new QueryLimitError(limit, value, max, path);
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { getNamedType, isObjectType } from 'graphql';
+import type { GraphQLNamedType } from 'graphql';
+import { GQLPrismaSelectError } from './errors';
+
+// Mutation payload support
+
+/**
+ * Options for selecting the model out of a mutation payload
+ */
+export interface MutationOptions {
+  field?: string;                  // Payload field returning the model (default: the payload field typed as a model)
+}
+
+/**
+ * Where the model was found in a mutation payload, and what else was requested
+ */
+export interface MutationInfo {
+  field?: string;                  // Payload field returning the model, undefined when the mutation returns the model
+  payload: string[];               // Other requested payload fields, e.g. ['errors']
+}
+
+/**
+ * Selection to pass to a Prisma write, e.g. `prisma.post.create({ data, ...selection })`
+ */
+export interface MutationSelection {
+  select?: any;
+  include?: any;
+}
+
+/**
+ * Finds the model in mutation payload types
+ */
+export class MutationPayload {
+  /**
+   * Find the payload field returning the model
+   * @param isModel Whether a GraphQL type is the Prisma model
+   * @returns The field and its type, or only the type when the payload is the model
+   */
+  static findModelField(
+    payloadType: GraphQLNamedType | undefined,
+    options: MutationOptions,
+    isModel: (typeName: string) => boolean
+  ): { field?: string; type?: string } {
+    if (options.field) {
+      const field = isObjectType(payloadType) ? payloadType.getFields()[options.field] : undefined;
+      if (isObjectType(payloadType) && !field) {
+        throw new GQLPrismaSelectError(`Mutation payload "${payloadType.name}" has no field "${options.field}"`);
+      }
+      return { field: options.field, type: field && getNamedType(field.type).name };
+    }
+
+    if (!payloadType) {
+      throw new GQLPrismaSelectError('The mutation payload type is unknown; set mutation.field to the field returning the model');
+    }
+    if (!isObjectType(payloadType) || isModel(payloadType.name)) {
+      return { type: payloadType.name };
+    }
+
+    const fields = Object.values(payloadType.getFields())
+      .filter((field) => isModel(getNamedType(field.type).name));
+    if (fields.length !== 1) {
+      const found = fields.length ? `several model fields (${fields.map((field) => field.name).join(', ')})` : 'no model field';
+      throw new GQLPrismaSelectError(
+        `Mutation payload "${payloadType.name}" has ${found}; set mutation.field to the field returning the model`
+      );
+    }
+    return { field: fields[0].name, type: getNamedType(fields[0].type).name };
+  }
+
+  /**
+   * The select or include of a selector as Prisma write arguments
+   */
+  static toSelection(select?: any, include?: any): MutationSelection {
+    if (select) {
+      return { select };
+    }
+    return include ? { include } : {};
+  }
+}
@@ -0,0 +1,137 @@
+import { PrismaDatamodel } from './dmmf';
+import { PaginationError } from './errors';
+
+// Page size limits
+
+/**
+ * Page size limits of a field
+ */
+export interface PaginationLimits {
+  defaultTake?: number;            // Take applied to to-many relations requested without one
+  maxTake?: number;                // Largest take (in either direction)
+  maxSkip?: number;                // Largest skip
+}
+
+/**
+ * Page size limits for the root field and every to-many relation
+ */
+export interface PaginationPolicy extends PaginationLimits {
+  models?: Record<string, PaginationLimits>;    // Per target model
+  relations?: Record<string, PaginationLimits>; // Per relation, keyed by coordinate ('User.posts') or field name
+  onExceed?: 'clamp' | 'reject';   // What to do with a take above maxTake (default 'clamp')
+}
+
+/**
+ * Field the pagination arguments belong to
+ */
+export interface PaginationTarget {
+  typeName?: string;               // Parent type
+  fieldName: string;
+  model?: string;                  // Type (or Prisma model) the field returns
+  isList: boolean;                 // Only lists get a default take
+  allowNegativeTake?: boolean;     // Backward pagination, e.g. Relay `last`
+  datamodel?: PrismaDatamodel;     // Validates cursor fields against the model
+}
+
+/**
+ * Validates and limits take, skip and cursor arguments
+ */
+export class PaginationGuard {
+  /**
+   * Get the limits of a field; relation limits take precedence over model limits,
+   * which take precedence over the global ones
+   */
+  static getLimits(policy: PaginationPolicy, target: PaginationTarget): PaginationLimits {
+    const { defaultTake, maxTake, maxSkip } = policy;
+    const coordinate = target.typeName ? `${target.typeName}.${target.fieldName}` : target.fieldName;
+    return {
+      defaultTake,
+      maxTake,
+      maxSkip,
+      ...(target.model ? policy.models?.[target.model] : undefined),
+      ...(policy.relations?.[coordinate] || policy.relations?.[target.fieldName])
+    };
+  }
+
+  /**
+   * Apply a policy to the Prisma arguments of a field
+   */
+  static apply(
+    args: Record<string, any>,
+    policy: PaginationPolicy,
+    target: PaginationTarget
+  ): Record<string, any> {
+    const limits = this.getLimits(policy, target);
+    const coordinate = target.typeName ? `${target.typeName}.${target.fieldName}` : target.fieldName;
+    const result = { ...args };
+
+    if (result.take === undefined || result.take === null) {
+      delete result.take;
+      if (target.isList && limits.defaultTake !== undefined) {
+        result.take = limits.defaultTake;
+      }
+    } else {
+      result.take = this.limitTake(result.take, limits, policy, target, coordinate);
+    }
+
+    if (result.skip !== undefined && result.skip !== null) {
+      if (!Number.isInteger(result.skip) || result.skip < 0) {
+        throw new PaginationError('skip', coordinate, `expected a non-negative integer, got ${JSON.stringify(result.skip)}`);
+      }
+      // Clamping skip would silently return another page
+      if (limits.maxSkip !== undefined && result.skip > limits.maxSkip) {
+        throw new PaginationError('skip', coordinate, `${result.skip} exceeds the maximum of ${limits.maxSkip}`);
+      }
+    }
+
+    if (result.cursor !== undefined) {
+      this.validateCursor(result.cursor, target, coordinate);
+    }
+
+    return result;
+  }
+
+  private static limitTake(
+    take: any,
+    limits: PaginationLimits,
+    policy: PaginationPolicy,
+    target: PaginationTarget,
+    coordinate: string
+  ): number {
+    if (!Number.isInteger(take)) {
+      throw new PaginationError('take', coordinate, `expected an integer, got ${JSON.stringify(take)}`);
+    }
+    if (take < 0 && !target.allowNegativeTake) {
+      throw new PaginationError('take', coordinate, `expected a non-negative integer, got ${take}`);
+    }
+
+    if (limits.maxTake === undefined || Math.abs(take) <= limits.maxTake) {
+      return take;
+    }
+    if (policy.onExceed === 'reject') {
+      throw new PaginationError('take', coordinate, `${Math.abs(take)} exceeds the maximum of ${limits.maxTake}`);
+    }
+    return Math.sign(take) * limits.maxTake;
+  }
+
+  /**
+   * A cursor is a non-empty object of unique field values; with a datamodel,
+   * scalar cursor fields must exist on the model
+   */
+  private static validateCursor(cursor: any, target: PaginationTarget, coordinate: string): void {
+    if (!cursor || typeof cursor !== 'object' || Array.isArray(cursor) || Object.keys(cursor).length === 0) {
+      throw new PaginationError('cursor', coordinate, `expected an object of unique field values, got ${JSON.stringify(cursor)}`);
+    }
+
+    for (const [field, value] of Object.entries(cursor)) {
+      if (value === null || value === undefined || Array.isArray(value)) {
+        throw new PaginationError('cursor', coordinate, `invalid value for "${field}"`);
+      }
+      // Object values are compound unique keys, which are not model fields
+      const model = target.model && target.datamodel?.hasModel(target.model) ? target.model : undefined;
+      if (model && typeof value !== 'object' && target.datamodel!.getField(model, field)?.kind !== 'scalar') {
+        throw new PaginationError('cursor', coordinate, `"${field}" is not a field of ${model}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,193 @@
+import type { GQLPrismaSelect } from './GQLPrismaSelect';
+
+// Phase 2: Advanced Filtering & Query Building
+
+/**
+ * Pagination supplied by the resolver, overriding the client's arguments
+ */
+export interface PaginationOptions {
+  take?: number;
+  skip?: number;
+  cursor?: Record<string, any>;
+}
+
+/**
+ * Arguments ready to spread into a Prisma model query
+ */
+export interface PrismaQueryArgs {
+  select?: Record<string, any>;
+  include?: Record<string, any>;
+  where?: Record<string, any>;
+  orderBy?: Record<string, any> | Record<string, any>[];
+  take?: number;
+  skip?: number;
+  cursor?: Record<string, any>;
+  distinct?: string[];
+}
+
+/**
+ * Builds Prisma query arguments from a selector: the derived selection and
+ * the client's root arguments, combined with resolver-supplied conditions
+ */
+export class PrismaQueryBuilder {
+  private selector: GQLPrismaSelect;
+  private conditions: Record<string, any>[] = [];
+  private orders: Record<string, any>[] = [];
+  private pagination: PaginationOptions = {};
+  private distinctFields?: string[];
+
+  constructor(selector: GQLPrismaSelect) {
+    this.selector = selector;
+  }
+
+  /**
+   * Add where conditions; they are combined with the client's filter and
+   * previous conditions with AND semantics
+   */
+  where(conditions: Record<string, any>): this {
+    this.conditions.push(conditions);
+    return this;
+  }
+
+  /**
+   * Add ordering, applied after the client's ordering (e.g. as a tiebreaker)
+   */
+  orderBy(order: Record<string, any> | Record<string, any>[]): this {
+    this.orders.push(...(Array.isArray(order) ? order : [order]));
+    return this;
+  }
+
+  /**
+   * Set pagination, overriding the client's take/skip/cursor
+   */
+  paginate(options: PaginationOptions): this {
+    this.pagination = { ...this.pagination, ...options };
+    return this;
+  }
+
+  /**
+   * Select distinct rows by fields, overriding the client's distinct
+   */
+  distinct(fields: string[]): this {
+    this.distinctFields = fields;
+    return this;
+  }
+
+  /**
+   * Arguments for `findMany`
+   */
+  findMany(): PrismaQueryArgs {
+    const args = this.selector.args;
+    return this.compact({
+      ...this.getSelection(),
+      where: this.getWhere(),
+      orderBy: this.getOrderBy(),
+      take: this.pagination.take ?? args.take,
+      skip: this.pagination.skip ?? args.skip,
+      cursor: this.pagination.cursor ?? args.cursor,
+      distinct: this.distinctFields ?? args.distinct
+    });
+  }
+
+  /**
+   * Arguments for `findFirst`
+   */
+  findFirst(): PrismaQueryArgs {
+    return this.findMany();
+  }
+
+  /**
+   * Arguments for `findUnique`. Other conditions are kept next to the unique
+   * fields, which Prisma accepts on unique filters
+   */
+  findUnique(where: Record<string, any>): PrismaQueryArgs {
+    const conditions = this.getWhere();
+    return this.compact({
+      ...this.getSelection(),
+      where: conditions ? PrismaQueryBuilder.mergeWhere(where, conditions) : where
+    });
+  }
+
+  /**
+   * Arguments for `count`: every matching row, regardless of pagination
+   */
+  count(): Pick<PrismaQueryArgs, 'where'> {
+    return this.compact({ where: this.getWhere() });
+  }
+
+  /**
+   * Arguments for `aggregate`, e.g. `aggregate({ _avg: { likes: true } })`
+   */
+  aggregate(aggregations: Record<string, any>): Omit<PrismaQueryArgs, 'select' | 'include' | 'distinct'> {
+    const { select, include, distinct, ...args } = this.findMany();
+    return { ...args, ...aggregations };
+  }
+
+  /**
+   * Alias of `findMany`
+   */
+  build(): PrismaQueryArgs {
+    return this.findMany();
+  }
+
+  /**
+   * Merges two where filters with AND semantics: disjoint fields are kept side
+   * by side, fields present in both are combined under `AND`
+   */
+  static mergeWhere(base: Record<string, any> = {}, additional: Record<string, any> = {}): Record<string, any> {
+    const result: Record<string, any> = { ...base };
+    const and: Record<string, any>[] = base.AND
+      ? Array.isArray(base.AND) ? [...base.AND] : [base.AND]
+      : [];
+
+    for (const [key, value] of Object.entries(additional)) {
+      if (key === 'AND') {
+        and.push(...(Array.isArray(value) ? value : [value]));
+      } else if (value === undefined) {
+        continue;
+      } else if (result[key] === undefined) {
+        result[key] = value;
+      } else if (JSON.stringify(result[key]) !== JSON.stringify(value)) {
+        and.push({ [key]: value });
+      }
+    }
+
+    if (and.length > 0) {
+      result.AND = and;
+    }
+    return result;
+  }
+
+  private getSelection(): Pick<PrismaQueryArgs, 'select' | 'include'> {
+    return { select: this.selector.select, include: this.selector.include };
+  }
+
+  private getWhere(): Record<string, any> | undefined {
+    const filters = [this.selector.args.where, ...this.conditions].filter(Boolean);
+    if (filters.length === 0) {
+      return undefined;
+    }
+    return filters.reduce((acc, filter) => PrismaQueryBuilder.mergeWhere(acc, filter), {});
+  }
+
+  private getOrderBy(): PrismaQueryArgs['orderBy'] {
+    const clientOrder = this.selector.args.orderBy;
+    const orders = [
+      ...(clientOrder ? (Array.isArray(clientOrder) ? clientOrder : [clientOrder]) : []),
+      ...this.orders
+    ];
+    if (orders.length === 0) {
+      return undefined;
+    }
+    return orders.length === 1 ? orders[0] : orders;
+  }
+
+  /**
+   * Drops undefined arguments so the result can be spread into Prisma calls
+   */
+  private compact<T extends Record<string, any>>(args: T): T {
+    return Object.fromEntries(
+      Object.entries(args).filter(([, value]) => value !== undefined)
+    ) as T;
+  }
+}
@@ -0,0 +1,296 @@
+import * as crypto from 'crypto';
+import { Kind } from 'graphql/language/kinds';
+import { print } from 'graphql';
+import type { ASTNode, OperationDefinitionNode } from 'graphql';
+import type { GraphQLResolveInfo } from 'types';
+import { CacheStore, CacheStoreClient } from './cacheStore';
+
+// Selection caching
+
+export interface SelectionCacheConfig {
+  ttl?: number;                    // Time to live in milliseconds (default 5 minutes)
+  maxSize?: number;                // Maximum cache entries (default 1000)
+  store?: CacheStore;              // Shared storage, e.g. a FileSystemCacheStore or a Redis KeyValueCache
+  compression?: boolean;           // Compress entries written to the store
+  onStoreError?: (error: unknown) => void;
+}
+
+/**
+ * Computed output of a selector
+ */
+export interface CachedSelection {
+  select?: any;
+  include?: any;
+  originalSelect?: any;
+  originalInclude?: any;
+  args: Record<string, any>;
+  [key: string]: any;
+}
+
+export interface SelectionCacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+  totalEntries: number;
+}
+
+interface SelectionCacheEntry {
+  value: CachedSelection;
+  expiresAt: number;
+}
+
+/**
+ * LRU cache of computed selections. For a given operation and response path
+ * the selection only depends on the variables used under the field, which
+ * are part of the key
+ */
+export class SelectionCache {
+  private cache = new Map<string, SelectionCacheEntry>();
+  private config: Required<Pick<SelectionCacheConfig, 'ttl' | 'maxSize'>>;
+  private store?: CacheStoreClient<CachedSelection>;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  private static documentHashes = new WeakMap<OperationDefinitionNode, string>();
+  private static fieldVariables = new WeakMap<ASTNode, string[]>();
+
+  constructor(config: SelectionCacheConfig = {}) {
+    this.config = {
+      ttl: config.ttl ?? 300000, // 5 minutes default
+      maxSize: config.maxSize ?? 1000
+    };
+    if (config.store) {
+      this.store = new CacheStoreClient({
+        store: config.store,
+        prefix: 'selection:',
+        ttl: this.config.ttl,
+        compression: config.compression,
+        onError: config.onStoreError
+      });
+    }
+  }
+
+  /**
+   * Get a selection from cache. With a store, missing selections are loaded
+   * in the background for later requests
+   */
+  get(key: string): CachedSelection | undefined {
+    const entry = this.getEntry(key);
+    if (!entry) {
+      this.misses++;
+      this.store?.load(key).then((stored) => this.restore(key, stored));
+      return undefined;
+    }
+
+    this.hits++;
+    return SelectionCache.clone(entry.value);
+  }
+
+  /**
+   * Get a selection from cache, waiting for the store on misses
+   */
+  async load(key: string): Promise<CachedSelection | undefined> {
+    let entry = this.getEntry(key);
+    if (!entry && this.store) {
+      entry = this.restore(key, await this.store.load(key));
+    }
+
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    return SelectionCache.clone(entry.value);
+  }
+
+  /**
+   * Set a selection in cache, writing it through to the store
+   */
+  set(key: string, value: CachedSelection): void {
+    const expiresAt = Date.now() + this.config.ttl;
+    this.insert(key, { value: SelectionCache.clone(value), expiresAt });
+    this.store?.write(key, value, expiresAt);
+  }
+
+  /**
+   * Wait for pending store writes
+   */
+  async flush(): Promise<void> {
+    await this.store?.flush();
+  }
+
+  /**
+   * Clear all in-memory entries and statistics; store entries expire with their TTL
+   */
+  clear(): void {
+    this.cache.clear();
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): SelectionCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      evictions: this.evictions,
+      totalEntries: this.cache.size
+    };
+  }
+
+  private getEntry(key: string): SelectionCacheEntry | undefined {
+    const entry = this.cache.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.cache.delete(key);
+      }
+      return undefined;
+    }
+
+    // Move to the end of the map, which is kept in least recently used order
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    return entry;
+  }
+
+  private insert(key: string, entry: SelectionCacheEntry): void {
+    this.cache.delete(key);
+    if (this.cache.size >= this.config.maxSize) {
+      const leastRecentlyUsed = this.cache.keys().next().value;
+      if (leastRecentlyUsed !== undefined) {
+        this.cache.delete(leastRecentlyUsed);
+        this.evictions++;
+      }
+    }
+    this.cache.set(key, entry);
+  }
+
+  /**
+   * Add an entry loaded from the store, unless it was set meanwhile
+   */
+  private restore(
+    key: string,
+    stored: { value: CachedSelection; expiresAt?: number } | undefined
+  ): SelectionCacheEntry | undefined {
+    const existing = this.cache.get(key);
+    if (existing || !stored) {
+      return existing;
+    }
+
+    const entry = { value: stored.value, expiresAt: stored.expiresAt ?? Date.now() + this.config.ttl };
+    this.insert(key, entry);
+    return entry;
+  }
+
+  /**
+   * Generate the cache key of a resolver's selection: a hash of the operation,
+   * the response path (without list indices) and the values of the variables
+   * used under the field
+   * @param extra Distinguishes selections built with different per-request options
+   */
+  static generateKey(info: GraphQLResolveInfo, extra?: string): string {
+    const path: (string | number)[] = [];
+    for (let current: GraphQLResolveInfo['path'] | undefined = info.path; current; current = current.prev) {
+      if (typeof current.key === 'string') {
+        path.unshift(current.key);
+      }
+    }
+
+    const variables = this.getFieldVariables(info).map((name) => [name, info.variableValues?.[name]]);
+    return [
+      this.getDocumentHash(info),
+      path.join('.'),
+      JSON.stringify(variables),
+      extra ?? ''
+    ].join(':');
+  }
+
+  private static getDocumentHash(info: GraphQLResolveInfo): string {
+    const { operation } = info;
+    if (!operation) {
+      return this.hashString(info.fieldNodes.map((node) => print(node)).join());
+    }
+
+    let hash = this.documentHashes.get(operation);
+    if (!hash) {
+      const fragments = Object.values(info.fragments || {}).map((fragment) => print(fragment));
+      hash = this.hashString([print(operation), ...fragments].join('\n'));
+      this.documentHashes.set(operation, hash);
+    }
+    return hash;
+  }
+
+  /**
+   * Names of the variables used in the field's arguments, directives and sub-selections
+   */
+  private static getFieldVariables(info: GraphQLResolveInfo): string[] {
+    const [fieldNode] = info.fieldNodes;
+    let names = this.fieldVariables.get(fieldNode);
+    if (names) {
+      return names;
+    }
+
+    const found = new Set<string>();
+    const visitedFragments = new Set<string>();
+    const visit = (node: any): void => {
+      if (!node || typeof node !== 'object') {
+        return;
+      }
+      if (Array.isArray(node)) {
+        node.forEach(visit);
+        return;
+      }
+      if (node.kind === Kind.VARIABLE) {
+        found.add(node.name.value);
+        return;
+      }
+      if (node.kind === Kind.FRAGMENT_SPREAD && !visitedFragments.has(node.name.value)) {
+        visitedFragments.add(node.name.value);
+        visit(info.fragments?.[node.name.value]);
+      }
+      for (const [key, value] of Object.entries(node)) {
+        if (key !== 'loc') {
+          visit(value);
+        }
+      }
+    };
+    info.fieldNodes.forEach(visit);
+
+    names = Array.from(found).sort();
+    this.fieldVariables.set(fieldNode, names);
+    return names;
+  }
+
+  /**
+   * Deep copy of plain objects and arrays, so cached selections can't be
+   * mutated by callers
+   */
+  private static clone<T>(value: T): T {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.clone(item)) as unknown as T;
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      const result: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = this.clone(item);
+      }
+      return result as T;
+    }
+    return value;
+  }
+
+  /**
+   * Hash of a document; collisions would serve another query's selection,
+   * also across the processes sharing a store
+   */
+  private static hashString(str: string): string {
+    return crypto.createHash('sha256').update(str).digest('hex');
+  }
+}
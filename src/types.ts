@@ -1,4 +1,5 @@
 import type { GraphQLSchema } from 'graphql';
+import type { GQLPrismaSelectOptions } from './GQLPrismaSelect';
 
 // Phase 8: Type-Safe Integration
 
@@ -29,11 +30,7 @@ export type SafeSelect<TGraphQL, TPrisma extends string> =
 /**
  * Type-safe options for TypedGQLPrismaSelect
  */
-export interface TypedOptions<TGraphQL, TPrisma extends string> {
-  excludeFields?: string[];
-  get?: string | string[];
-  transforms?: import('./GQLPrismaSelect').TransformOptions;
-  fragments?: import('./fragments').FragmentOptions;
+export interface TypedOptions<TGraphQL, TPrisma extends string> extends GQLPrismaSelectOptions {
   typeValidation?: TypeValidationOptions;
 }
 
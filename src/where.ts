@@ -0,0 +1,257 @@
+import { PrismaDatamodel } from './dmmf';
+import { InvalidWhereError } from './errors';
+import type { ValidationError, ValidationResult } from './types';
+
+// Where-clause allowlist
+
+/**
+ * Filterable fields per model, with the operators allowed on each (`true`
+ * allows every operator). Relation fields list relation operators such as
+ * `some` or `is`, and their filters are checked against the related model
+ */
+export interface WhereAllowlist {
+  [model: string]: {
+    [field: string]: string[] | true;
+  };
+}
+
+/**
+ * Model of a relation field, null for fields known not to be relations, or
+ * undefined when the field is unknown
+ */
+export type RelationResolver = (model: string, field: string) => string | null | undefined;
+
+/**
+ * Rules for client-supplied `where` arguments
+ */
+export interface WhereOptions {
+  allow: WhereAllowlist;           // Models without an entry cannot be filtered
+  maxDepth?: number;               // Max nesting of AND / OR / NOT
+  maxInLength?: number;            // Max length of `in` / `notIn` lists
+  onViolation?: 'throw' | 'strip'; // Throw an InvalidWhereError (default) or drop the offending filters
+}
+
+const LOGICAL_OPERATORS = ['AND', 'OR', 'NOT'];
+const RELATION_OPERATORS = ['some', 'every', 'none', 'is', 'isNot'];
+const LIST_OPERATORS = ['in', 'notIn'];
+// Modifiers of other operators rather than filters on their own
+const MODIFIERS = ['mode'];
+
+interface WhereContext {
+  options: WhereOptions;
+  resolveRelation: RelationResolver;
+  errors: ValidationError[];
+}
+
+/**
+ * Validates and sanitizes client-supplied `where` filters against an allowlist
+ */
+export class WhereValidator {
+  /**
+   * Validate a filter of a model
+   * @param path Path of the filter, prefixed to the paths of the errors
+   */
+  static validate(
+    where: Record<string, any>,
+    model: string | undefined,
+    options: WhereOptions,
+    relations?: PrismaDatamodel | RelationResolver,
+    path: string[] = []
+  ): ValidationResult {
+    const context: WhereContext = { options, resolveRelation: this.getRelationResolver(relations), errors: [] };
+    this.sanitizeWhere(where, model, path, 0, context);
+    return { isValid: context.errors.length === 0, errors: context.errors, warnings: [] };
+  }
+
+  /**
+   * Apply the options to a filter: throw on violations, or drop the offending
+   * filters with `onViolation: 'strip'`
+   */
+  static apply(
+    where: Record<string, any>,
+    model: string | undefined,
+    options: WhereOptions,
+    relations?: PrismaDatamodel | RelationResolver,
+    path: string[] = []
+  ): Record<string, any> {
+    const context: WhereContext = { options, resolveRelation: this.getRelationResolver(relations), errors: [] };
+    const sanitized = this.sanitizeWhere(where, model, path, 0, context);
+    if (context.errors.length > 0 && options.onViolation !== 'strip') {
+      throw new InvalidWhereError(context.errors);
+    }
+    return sanitized;
+  }
+
+  private static sanitizeWhere(
+    where: Record<string, any>,
+    model: string | undefined,
+    path: string[],
+    depth: number,
+    context: WhereContext
+  ): Record<string, any> {
+    const result: Record<string, any> = {};
+    if (!where || typeof where !== 'object' || Array.isArray(where)) {
+      this.report(context, path, 'filter object', this.typeOf(where), 'Expected a filter object');
+      return result;
+    }
+
+    for (const [key, value] of Object.entries(where)) {
+      const fieldPath = [...path, key];
+
+      if (LOGICAL_OPERATORS.includes(key)) {
+        if (context.options.maxDepth !== undefined && depth + 1 > context.options.maxDepth) {
+          this.report(context, fieldPath, `nesting depth <= ${context.options.maxDepth}`, `${depth + 1}`,
+            `Logical operators are nested deeper than ${context.options.maxDepth}`);
+          continue;
+        }
+        result[key] = Array.isArray(value)
+          ? value.map((item, index) => this.sanitizeWhere(item, model, [...fieldPath, `${index}`], depth + 1, context))
+          : this.sanitizeWhere(value, model, fieldPath, depth + 1, context);
+        continue;
+      }
+
+      const allowed = model ? context.options.allow[model]?.[key] : undefined;
+      if (!allowed) {
+        this.report(context, fieldPath, 'filterable field', key,
+          `Field '${key}' is not filterable${model ? ` on ${model}` : ''}`);
+        continue;
+      }
+
+      const relationModel = model ? context.resolveRelation(model, key) : undefined;
+      // Filters of unknown fields may be relation filters, which can't be checked
+      if (relationModel === undefined && this.isNestedFilter(value, allowed)) {
+        this.report(context, fieldPath, 'known field type', 'unknown',
+          `Nested filters on '${key}' can't be checked without its type`);
+        continue;
+      }
+      const filter = relationModel
+        ? this.sanitizeRelationFilter(value, relationModel, allowed, fieldPath, depth, context)
+        : this.sanitizeFieldFilter(value, allowed, fieldPath, context);
+      if (filter !== undefined) {
+        result[key] = filter;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Whether a filter could hold filters of another model: relation operators,
+   * or any object when every operator is allowed
+   */
+  private static isNestedFilter(value: any, allowed: string[] | true): boolean {
+    if (!value || typeof value !== 'object' || value instanceof Date || Array.isArray(value)) {
+      return false;
+    }
+    return allowed === true || Object.keys(value).some((operator) => RELATION_OPERATORS.includes(operator));
+  }
+
+  private static getRelationResolver(relations?: PrismaDatamodel | RelationResolver): RelationResolver {
+    if (typeof relations === 'function') {
+      return relations;
+    }
+    return (model, field) => {
+      const definition = relations?.getField(model, field);
+      if (!definition) {
+        return undefined;
+      }
+      return definition.kind === 'object' ? definition.type : null;
+    };
+  }
+
+  private static sanitizeRelationFilter(
+    value: any,
+    relationModel: string,
+    allowed: string[] | true,
+    path: string[],
+    depth: number,
+    context: WhereContext
+  ): Record<string, any> | undefined {
+    if (value === null) {
+      return this.checkOperator('equals', allowed, path, context) ? value : undefined;
+    }
+
+    const operators = value && typeof value === 'object' ? Object.keys(value) : [];
+    // To-one relations can be filtered directly, without `is`
+    if (!operators.some((operator) => RELATION_OPERATORS.includes(operator))) {
+      return this.checkOperator('is', allowed, path, context)
+        ? this.sanitizeWhere(value, relationModel, path, depth, context)
+        : undefined;
+    }
+
+    const result: Record<string, any> = {};
+    for (const operator of operators) {
+      const operatorPath = [...path, operator];
+      if (!RELATION_OPERATORS.includes(operator)) {
+        this.report(context, operatorPath, 'relation operator', operator, `Unknown relation operator '${operator}'`);
+      } else if (this.checkOperator(operator, allowed, operatorPath, context)) {
+        result[operator] = value[operator] === null
+          ? null
+          : this.sanitizeWhere(value[operator], relationModel, operatorPath, depth, context);
+      }
+    }
+    return result;
+  }
+
+  private static sanitizeFieldFilter(
+    value: any,
+    allowed: string[] | true,
+    path: string[],
+    context: WhereContext
+  ): any {
+    // Scalars (and null) are shorthands for `equals`
+    if (value === null || typeof value !== 'object' || value instanceof Date) {
+      return this.checkOperator('equals', allowed, path, context) ? value : undefined;
+    }
+    if (Array.isArray(value)) {
+      this.report(context, path, 'filter object', 'array', 'Expected a filter object or value');
+      return undefined;
+    }
+
+    const result: Record<string, any> = {};
+    for (const [operator, operand] of Object.entries(value)) {
+      const operatorPath = [...path, operator];
+      if (!MODIFIERS.includes(operator) && !this.checkOperator(operator, allowed, operatorPath, context)) {
+        continue;
+      }
+
+      const { maxInLength } = context.options;
+      if (LIST_OPERATORS.includes(operator) && Array.isArray(operand) &&
+        maxInLength !== undefined && operand.length > maxInLength) {
+        this.report(context, operatorPath, `at most ${maxInLength} values`, `${operand.length} values`,
+          `'${operator}' lists are limited to ${maxInLength} values`);
+        continue;
+      }
+      result[operator] = operand;
+    }
+
+    return Object.keys(result).length > 0 ? result : undefined;
+  }
+
+  private static checkOperator(
+    operator: string,
+    allowed: string[] | true,
+    path: string[],
+    context: WhereContext
+  ): boolean {
+    if (allowed === true || allowed.includes(operator)) {
+      return true;
+    }
+    this.report(context, path, allowed.join(' | '), operator, `Operator '${operator}' is not allowed`);
+    return false;
+  }
+
+  private static report(
+    context: WhereContext,
+    path: string[],
+    expectedType: string,
+    actualType: string,
+    message: string
+  ): void {
+    context.errors.push({ field: path[path.length - 1] || 'where', expectedType, actualType, message, path });
+  }
+
+  private static typeOf(value: any): string {
+    return Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+  }
+}